@@ -2,14 +2,24 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { getAllSessions, clearAllSessions } from '@/lib/storage';
-import { Session, DEFAULT_QUESTIONNAIRES, Questionnaire } from '@/types';
+import { getAllSessions, clearAllSessions, saveSession } from '@/lib/storage';
+import { Session, DEFAULT_QUESTIONNAIRES, Questionnaire, SymptomRecord } from '@/types';
 import QuestionnaireEditor from '@/components/QuestionnaireEditor';
+import PromptTemplateEditor from '@/components/PromptTemplateEditor';
+import AISettingsEditor from '@/components/AISettingsEditor';
+import VoiceSettingsEditor from '@/components/VoiceSettingsEditor';
+import RedFlagRuleEditor from '@/components/RedFlagRuleEditor';
+import SymptomTable from '@/components/SymptomTable';
+import { formatNormalizedValue } from '@/lib/answerNormalization';
+import { LANGUAGES } from '@/lib/languages';
+import { PII_LABELS, RedactionLogEntry, getRedactionLog } from '@/lib/redaction';
+import { INPUT_GUARD_LABELS } from '@/lib/inputGuard';
 
 export default function AdminPage() {
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [redactionLog, setRedactionLog] = useState<RedactionLogEntry[]>([]);
   const [questionnaires, setQuestionnaires] = useState<Questionnaire[]>([]);
-  const [activeTab, setActiveTab] = useState<'sessions' | 'questionnaires'>('sessions');
+  const [activeTab, setActiveTab] = useState<'sessions' | 'questionnaires' | 'prompts' | 'settings' | 'voice' | 'redflags'>('sessions');
   const [editingQuestionnaire, setEditingQuestionnaire] = useState<Questionnaire | null>(null);
   const [showEditor, setShowEditor] = useState(false);
   const [viewingQuestionnaire, setViewingQuestionnaire] = useState<Questionnaire | null>(null);
@@ -22,6 +32,7 @@ export default function AdminPage() {
   function loadSessions() {
     const allSessions = getAllSessions();
     setSessions(allSessions);
+    setRedactionLog(getRedactionLog());
   }
 
   function loadQuestionnaires() {
@@ -54,6 +65,17 @@ export default function AdminPage() {
     }
   }
 
+  // スタッフによる症状の表の修正を保存
+  function handleUpdateSymptoms(session: Session, questionId: string, symptoms: SymptomRecord[]) {
+    saveSession({
+      ...session,
+      formattedAnswers: session.formattedAnswers?.map((answer) =>
+        answer.questionId === questionId ? { ...answer, symptoms } : answer
+      ),
+    });
+    loadSessions();
+  }
+
   function handleAddQuestionnaire() {
     setEditingQuestionnaire(null);
     setShowEditor(true);
@@ -85,6 +107,11 @@ export default function AdminPage() {
     setViewingQuestionnaire(questionnaire);
   }
 
+  // レッドフラグが記録されたセッション数
+  const flaggedCount = sessions.filter((s) => s.redFlags?.length).length;
+  // 入力ガードで要確認となったセッション数
+  const guardedCount = sessions.filter((s) => s.guardFlags?.length).length;
+
   function formatDate(timestamp: number) {
     return new Date(timestamp).toLocaleString('ja-JP');
   }
@@ -182,6 +209,46 @@ export default function AdminPage() {
             >
               文診表管理
             </button>
+            <button
+              onClick={() => setActiveTab('prompts')}
+              className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+                activeTab === 'prompts'
+                  ? 'border-[#0066CC] text-[#0066CC]'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              プロンプト管理
+            </button>
+            <button
+              onClick={() => setActiveTab('settings')}
+              className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+                activeTab === 'settings'
+                  ? 'border-[#0066CC] text-[#0066CC]'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              AI設定
+            </button>
+            <button
+              onClick={() => setActiveTab('voice')}
+              className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+                activeTab === 'voice'
+                  ? 'border-[#0066CC] text-[#0066CC]'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              音声設定
+            </button>
+            <button
+              onClick={() => setActiveTab('redflags')}
+              className={`px-4 py-2 font-medium border-b-2 transition-colors ${
+                activeTab === 'redflags'
+                  ? 'border-[#0066CC] text-[#0066CC]'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              レッドフラグ
+            </button>
           </nav>
         </div>
 
@@ -191,6 +258,16 @@ export default function AdminPage() {
             <div className="flex items-center justify-between mb-6">
               <h2 className="text-xl font-bold text-gray-800">
                 保存されたセッション ({sessions.length}件)
+                {flaggedCount > 0 && (
+                  <span className="ml-3 px-2 py-1 text-sm bg-red-100 text-red-700 rounded">
+                    ⚠ 要対応 {flaggedCount}件
+                  </span>
+                )}
+                {guardedCount > 0 && (
+                  <span className="ml-3 px-2 py-1 text-sm bg-orange-100 text-orange-700 rounded">
+                    要確認 {guardedCount}件
+                  </span>
+                )}
               </h2>
               <button
                 onClick={handleClearAll}
@@ -209,7 +286,13 @@ export default function AdminPage() {
                 {sessions.map((session) => (
                   <div
                     key={session.sessionId}
-                    className="border border-gray-200 rounded-lg p-4 hover:border-[#0066CC] transition-colors"
+                    className={`border rounded-lg p-4 transition-colors ${
+                      session.redFlags?.length
+                        ? 'border-red-400 bg-red-50 hover:border-red-600'
+                        : session.guardFlags?.length
+                          ? 'border-orange-300 hover:border-orange-500'
+                          : 'border-gray-200 hover:border-[#0066CC]'
+                    }`}
                   >
                     <div className="flex items-start justify-between mb-3">
                       <div>
@@ -218,7 +301,27 @@ export default function AdminPage() {
                         </p>
                         <p className="text-sm text-gray-500">
                           文診表: {session.questionnaireId}
+                          {session.interviewMode === 'scripted' && (
+                            <span className="ml-2 px-2 py-0.5 text-xs bg-yellow-100 text-yellow-800 rounded">
+                              スクリプト問診
+                            </span>
+                          )}
+                          {session.easyJapanese && (
+                            <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded">
+                              やさしい日本語
+                            </span>
+                          )}
+                          {session.language && session.language !== 'ja' && (
+                            <span className="ml-2 px-2 py-0.5 text-xs bg-teal-100 text-teal-800 rounded">
+                              {LANGUAGES[session.language].promptName}
+                            </span>
+                          )}
                         </p>
+                        {session.promptVersions && (
+                          <p className="text-xs text-gray-400 font-mono">
+                            プロンプト: {Object.entries(session.promptVersions).map(([stage, version]) => `${stage}=${version}`).join(' ')}
+                          </p>
+                        )}
                       </div>
                       <div className="text-right">
                         <p className="text-sm text-gray-600">
@@ -230,6 +333,44 @@ export default function AdminPage() {
                       </div>
                     </div>
 
+                    {/* レッドフラグ */}
+                    {session.redFlags && session.redFlags.length > 0 && (
+                      <div className="bg-red-100 rounded p-3 mb-3 border border-red-300">
+                        <p className="text-sm font-bold text-red-700 mb-1">⚠ レッドフラグ:</p>
+                        <div className="space-y-1">
+                          {session.redFlags.map((flag) => (
+                            <p key={flag.detectedAt} className="text-sm text-red-800">
+                              <span className="font-medium">{flag.label}</span>
+                              {` 「${flag.message}」`}
+                              <span className="ml-2 text-xs text-red-600">
+                                ({flag.source === 'rule' ? `ルール一致: ${flag.matchedText}` : `LLM判定: ${flag.matchedText}`}
+                                {' ・ '}{formatDate(flag.detectedAt)}
+                                {flag.acknowledgedAt ? ' ・ スタッフ確認済み' : ' ・ 未確認'})
+                              </span>
+                            </p>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* 入力ガード（指示の書き換え・問診と無関係な依頼） */}
+                    {session.guardFlags && session.guardFlags.length > 0 && (
+                      <div className="bg-orange-50 rounded p-3 mb-3 border border-orange-200">
+                        <p className="text-sm font-bold text-orange-700 mb-1">要確認（入力ガード）:</p>
+                        <div className="space-y-1">
+                          {session.guardFlags.map((flag) => (
+                            <p key={flag.detectedAt} className="text-sm text-orange-800">
+                              <span className="font-medium">{INPUT_GUARD_LABELS[flag.category]}</span>
+                              {` 「${flag.message}」`}
+                              <span className="ml-2 text-xs text-orange-600">
+                                (一致: {flag.matchedText}{' ・ '}{formatDate(flag.detectedAt)})
+                              </span>
+                            </p>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* AI 요약 표시 */}
                     {session.summary && (
                       <div className="bg-purple-50 rounded p-3 mb-3 border border-purple-200">
@@ -251,9 +392,20 @@ export default function AdminPage() {
                                 {answer.questionText}:
                               </span>{' '}
                               <span className="text-gray-800">{answer.extractedAnswer}</span>
+                              {answer.normalizedValue !== undefined && (
+                                <span className="ml-2 px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">
+                                  {formatNormalizedValue(answer.normalizedValue)}
+                                </span>
+                              )}
                               {answer.confidence === 'low' && (
                                 <span className="ml-2 text-xs text-orange-500">(低信頼度)</span>
                               )}
+                              {answer.symptoms && answer.symptoms.length > 0 && (
+                                <SymptomTable
+                                  symptoms={answer.symptoms}
+                                  onChange={(symptoms) => handleUpdateSymptoms(session, answer.questionId, symptoms)}
+                                />
+                              )}
                             </div>
                           ))
                         ) : (
@@ -264,11 +416,62 @@ export default function AdminPage() {
                                 {answer.questionText || answer.questionId}:
                               </span>{' '}
                               <span className="text-gray-800">{answer.answer}</span>
+                              {answer.normalizedValue !== undefined && (
+                                <span className="ml-2 px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">
+                                  {formatNormalizedValue(answer.normalizedValue)}
+                                </span>
+                              )}
+                              {answer.evidence && answer.evidence !== answer.answer && (
+                                <span className="ml-2 text-xs text-gray-400">（発話: {answer.evidence}）</span>
+                              )}
                             </div>
                           ))
                         )}
                       </div>
                     </div>
+
+                    {/* 会話記録（患者の言語のまま） */}
+                    {session.transcript && session.transcript.length > 0 && (
+                      <details className="mt-3 text-sm">
+                        <summary className="cursor-pointer text-gray-600 hover:text-gray-800">
+                          会話記録（{LANGUAGES[session.language || 'ja'].promptName}・{session.transcript.length}件）
+                        </summary>
+                        <div className="mt-2 space-y-1 bg-gray-50 rounded p-3">
+                          {session.transcript.map((entry, index) => (
+                            <p key={index} className="text-gray-700">
+                              <span className="font-medium text-gray-500">
+                                {entry.role === 'user' ? '患者' : 'アシスタント'}:
+                              </span>{' '}
+                              {entry.content}
+                              {entry.truncated && (
+                                <span className="ml-1 text-xs text-gray-400">（患者の割り込みにより読み上げを中断）</span>
+                              )}
+                            </p>
+                          ))}
+                        </div>
+                      </details>
+                    )}
+
+                    {/* 個人情報のマスキング記録（監査用、元の値は記録しない） */}
+                    {redactionLog.some((entry) => entry.sessionId === session.sessionId) && (
+                      <details className="mt-3 text-sm">
+                        <summary className="cursor-pointer text-gray-600 hover:text-gray-800">
+                          個人情報のマスキング記録（{redactionLog.filter((entry) => entry.sessionId === session.sessionId).length}件）
+                        </summary>
+                        <div className="mt-2 space-y-1 bg-gray-50 rounded p-3">
+                          {redactionLog
+                            .filter((entry) => entry.sessionId === session.sessionId)
+                            .map((entry, index) => (
+                              <p key={index} className="text-gray-700">
+                                <span className="text-gray-500">
+                                  {new Date(entry.timestamp).toLocaleTimeString('ja-JP')}
+                                </span>{' '}
+                                [{entry.stage}] {PII_LABELS[entry.type]} → {entry.placeholder}
+                              </p>
+                            ))}
+                        </div>
+                      </details>
+                    )}
                   </div>
                 ))}
               </div>
@@ -355,6 +558,26 @@ export default function AdminPage() {
             </div>
           </div>
         )}
+
+        {/* プロンプト管理 */}
+        {activeTab === 'prompts' && (
+          <PromptTemplateEditor questionnaires={questionnaires} />
+        )}
+
+        {/* AI設定 */}
+        {activeTab === 'settings' && (
+          <AISettingsEditor questionnaires={questionnaires} />
+        )}
+
+        {/* 音声設定 */}
+        {activeTab === 'voice' && (
+          <VoiceSettingsEditor questionnaires={questionnaires} />
+        )}
+
+        {/* レッドフラグ */}
+        {activeTab === 'redflags' && (
+          <RedFlagRuleEditor questionnaires={questionnaires} />
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,6 @@
+import { proxyChatCompletion } from '@/lib/upstream';
+
+// 【1段階AI】回答分析
+export async function POST(request: Request) {
+  return proxyChatCompletion(request);
+}
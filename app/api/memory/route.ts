@@ -0,0 +1,6 @@
+import { proxyChatCompletion } from '@/lib/upstream';
+
+// 会話メモリ（古い発話のファクトシート圧縮）
+export async function POST(request: Request) {
+  return proxyChatCompletion(request);
+}
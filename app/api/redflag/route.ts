@@ -0,0 +1,6 @@
+import { proxyChatCompletion } from '@/lib/upstream';
+
+// レッドフラグ分類器（緊急性のある発言の判定）
+export async function POST(request: Request) {
+  return proxyChatCompletion(request);
+}
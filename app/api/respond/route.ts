@@ -0,0 +1,6 @@
+import { proxyChatCompletion } from '@/lib/upstream';
+
+// 【2段階AI】対話生成
+export async function POST(request: Request) {
+  return proxyChatCompletion(request);
+}
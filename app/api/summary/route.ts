@@ -0,0 +1,6 @@
+import { proxyChatCompletion } from '@/lib/upstream';
+
+// 要約AI
+export async function POST(request: Request) {
+  return proxyChatCompletion(request);
+}
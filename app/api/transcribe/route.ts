@@ -0,0 +1,6 @@
+import { proxyTranscription } from '@/lib/upstream';
+
+// 音声認識（録音データの文字起こし）
+export async function POST(request: Request) {
+  return proxyTranscription(request);
+}
@@ -0,0 +1,6 @@
+import { proxySpeech } from '@/lib/upstream';
+
+// 音声合成（TTS）
+export async function POST(request: Request) {
+  return proxySpeech(request);
+}
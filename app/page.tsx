@@ -1,17 +1,58 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import ChatInterface from '@/components/ChatInterface';
 import SummaryScreen from '@/components/SummaryScreen';
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition';
-import { analyzeUserAnswer, generateAIResponse, generateSummary, speakText, stopSpeaking } from '@/lib/openai';
+import { useHandsFreeConversation } from '@/hooks/useHandsFreeConversation';
+import {
+  analyzeUserAnswer,
+  generateAIResponse,
+  generateSummary,
+  speakText,
+  speakTextWithWebAPI,
+  stopSpeaking,
+  createSpeechQueue,
+} from '@/lib/openai';
 import { saveSession, cleanExpiredSessions } from '@/lib/storage';
+import { ConversationMemory, EMPTY_MEMORY, compactConversation, formatFactSheet } from '@/lib/conversationMemory';
+import { ResolvedPromptSet, resolvePromptSet } from '@/lib/prompts';
+import { AISettings, DEFAULT_AI_SETTINGS, resolveAISettings, resolveInterviewMode } from '@/lib/settings';
+import { RedFlagConfig, detectRedFlag, matchRedFlagRules, resolveRedFlagConfig } from '@/lib/redFlags';
+import { collectSymptoms } from '@/lib/symptoms';
+import { normalizeAnswer } from '@/lib/answerNormalization';
+import { DEFAULT_LANGUAGE, INTERVIEW_LANGUAGES, LANGUAGES, joinSentences } from '@/lib/languages';
+import { CONFUSION_THRESHOLD, EASY_JAPANESE_SWITCH_MESSAGE, isConfusionUtterance, toEasySpeechVoice } from '@/lib/easyJapanese';
+import { isAbortError } from '@/lib/request';
+import { createPIIRedactor, setSessionRedactor } from '@/lib/redaction';
+import { checkPatientInput, formatGuardReply } from '@/lib/inputGuard';
+import { TTSSettingsOverride, resolveTTSSettings, toSpeechVoice } from '@/lib/tts';
+import { DEFAULT_AVATAR_ID } from '@/lib/avatars';
+import { createBargeInDetector, removeEcho } from '@/lib/bargeIn';
+import { HANDS_FREE_MAX_REPROMPTS, formatSilenceReprompt } from '@/lib/handsFree';
+import { DEFAULT_VAD_PROFILE, VADProfileId, VAD_PROFILES, getVADProfileId } from '@/lib/vad';
+import { DEFAULT_STT_SETTINGS, STTSettings, getSTTSettings } from '@/lib/stt';
+import {
+  AI_FAILURE_THRESHOLD,
+  buildScriptedSummary,
+  findNextQuestionIndex,
+  formatScriptedQuestion,
+  runScriptedTurn,
+} from '@/lib/scriptedInterview';
 import {
+  Answer,
   ChatMessage,
+  InputGuardAlert,
   InputMode,
+  InterviewLanguage,
+  InterviewMode,
+  RedFlagAlert,
   Session,
+  SymptomRecord,
+  TranscriptEntry,
+  Question,
   Questionnaire,
   getAllQuestionnaires,
   EmotionType
@@ -20,6 +61,11 @@ import {
 // 3Dアバターは動的インポート（SSR無効化）
 const Avatar3D = dynamic(() => import('@/components/Avatar3D'), { ssr: false });
 
+// 最後のアバターの発言（割り込み発話の反響を除くため）
+function lastAssistantMessage(messages: ChatMessage[]): ChatMessage | undefined {
+  return [...messages].reverse().find(m => m.role === 'assistant');
+}
+
 export default function Home() {
   const [isStarted, setIsStarted] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -33,9 +79,61 @@ export default function Home() {
   const [showSummary, setShowSummary] = useState(false);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
   const [isWaitingForAI, setIsWaitingForAI] = useState(false);
-
-  // OpenAI API Key
-  const apiKey = process.env.NEXT_PUBLIC_OPENAI_API_KEY || '';
+  // レッドフラグ検出により問診を一時停止中（スタッフが再開するまで入力不可）
+  const [isPaused, setIsPaused] = useState(false);
+  // 問診の進め方（AIの失敗が続いた場合はスクリプト問診に切り替わる）
+  const [interviewMode, setInterviewMode] = useState<InterviewMode>('ai');
+  // 問診の言語（スタート画面で選択、音声認識・対話・読み上げに使用）
+  const [language, setLanguage] = useState<InterviewLanguage>(DEFAULT_LANGUAGE);
+  // やさしい日本語モード（スタート画面で選択、または「わからない」が続いた場合に自動で有効化）
+  const [easyJapanese, setEasyJapanese] = useState(false);
+  // 会話メモリ（古い会話を圧縮したファクトシート）
+  const conversationMemoryRef = useRef<ConversationMemory>(EMPTY_MEMORY);
+  // セッション開始時に確定したプロンプトテンプレート
+  const promptSetRef = useRef<ResolvedPromptSet | null>(null);
+  // セッション開始時に確定したAI生成設定（段階ごと）
+  const aiSettingsRef = useRef<AISettings>(DEFAULT_AI_SETTINGS);
+  // セッション開始時に確定したレッドフラグ検出ルール
+  const redFlagConfigRef = useRef<RedFlagConfig | null>(null);
+  // セッション開始時に確定した読み上げの声の設定
+  const ttsSettingsRef = useRef<TTSSettingsOverride>({});
+  // 進行中のAI呼び出し・TTSを中断するためのコントローラー
+  const requestControllerRef = useRef<AbortController | null>(null);
+  // AI応答が連続して失敗した回数
+  const aiFailureCountRef = useRef(0);
+  // スクリプト問診で現在の質問を聞き直した回数
+  const scriptedRetryCountRef = useRef(0);
+  // 最新のメッセージ（非同期処理の途中で問診が完了した場合も会話全体を参照できるように）
+  const messagesRef = useRef<ChatMessage[]>([]);
+  // やさしい日本語モード（同じターン内の読み上げ・対話生成にすぐ反映するためrefでも保持）
+  const easyJapaneseRef = useRef(false);
+  // 「意味がわからない」などの発言の回数
+  const confusionCountRef = useRef(0);
+  // AI問診で最後に尋ねた内容（日本語以外は文診表の質問文を読み上げられないため、聞き直しに使う）
+  const lastAskedRef = useRef('');
+  // 割り込み発話モード（読み上げ中も音声認識を続け、患者が話し始めたら読み上げを止める）
+  const [bargeIn, setBargeIn] = useState(false);
+  // 読み上げの反響を除いた患者の発話が続いているかの判定
+  const bargeInDetectorRef = useRef(createBargeInDetector());
+  // 読み上げ中から聞き取っている発話（認識結果の先頭の反響を除く）
+  const heardDuringSpeechRef = useRef(false);
+  // 割り込みで読み上げを止めた（読み上げ終了時に聞き取った内容を破棄しない）
+  const bargedInRef = useRef(false);
+  // ハンズフリーモード（読み上げが終わるたびに自動で聞き取りを再開する）
+  const [handsFree, setHandsFree] = useState(false);
+  // 発話がないまま質問を読み上げ直した回数（回答があればリセット）
+  const silenceRepromptCountRef = useRef(0);
+  // 発話の終了を判定する感度（設置場所に合わせて管理画面で設定、セッション開始時に確定）
+  const [vadProfileId, setVADProfileId] = useState<VADProfileId>(DEFAULT_VAD_PROFILE);
+  // 音声認識のバックエンド（管理画面で設定、セッション開始時に確定）
+  const [sttSettings, setSTTSettings] = useState<STTSettings>(DEFAULT_STT_SETTINGS);
+  // 音声入力を送信前に確認する（聞き間違いをAIに送らないように）
+  const [confirmVoiceInput, setConfirmVoiceInput] = useState(false);
+  // 確認待ちの認識結果
+  const [pendingVoiceText, setPendingVoiceText] = useState<string | null>(null);
+  // 読み上げの音声を取得中・再生中（取得中は isTTSSpeaking がまだ false のため、ハンズフリーの聞き取りを待たせる）
+  const [isSpeechPending, setIsSpeechPending] = useState(false);
+  const pendingSpeechCountRef = useRef(0);
 
   // 文診表を読み込む
   useEffect(() => {
@@ -47,47 +145,260 @@ export default function Home() {
   }, []);
 
   // 音声認識フック
-  const { status: sttStatus, transcript, start: startSTT, stop: stopSTT } = useSpeechRecognition({
+  const {
+    status: sttStatus,
+    transcript,
+    start: startSTT,
+    stop: stopSTT,
+    reset: resetSTT,
+    isSupported: isVoiceSupported,
+    isStreaming: isSTTStreaming,
+  } = useSpeechRecognition({
     onResult: handleVoiceResult,
-    language: 'ja-JP',
+    onError: handleVoiceError,
+    language: LANGUAGES[language].locale,
     silenceTimeout: 3000,
+    vadProfile: VAD_PROFILES[vadProfileId],
+    sttSettings,
   });
+  // 割り込み発話は話している途中の認識結果が必要なため、録音して文字起こしする場合は使えない
+  const canBargeIn = bargeIn && isSTTStreaming;
+
+  // ハンズフリー: 患者の回答を待つ間は音声認識を自動で再開し、長い無音では質問を読み上げ直す
+  useHandsFreeConversation({
+    active: handsFree && inputMode === 'voice' && isStarted && !showSummary && !isGeneratingSummary &&
+      !isPaused && !isTTSSpeaking && !isSpeechPending && !isWaitingForAI && pendingVoiceText === null,
+    sttStatus,
+    transcript,
+    startListening: startSTT,
+    onSilence: handleSilenceReprompt,
+  });
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
 
   // 初期化：期限切れセッションを削除
   useEffect(() => {
     cleanExpiredSessions();
   }, []);
 
-  // TTS再生中はSTTを停止
+  // ページ離脱時は進行中のAI呼び出し・TTSを中断
   useEffect(() => {
-    if (isTTSSpeaking) {
+    const abortAll = () => {
+      requestControllerRef.current?.abort();
+      stopSpeaking();
+    };
+    window.addEventListener('pagehide', abortAll);
+    return () => {
+      window.removeEventListener('pagehide', abortAll);
+      abortAll();
+    };
+  }, []);
+
+  // 進行中のAI呼び出しを中断し、新しい呼び出し用のシグナルを発行
+  function beginRequest(): AbortSignal {
+    requestControllerRef.current?.abort();
+    const controller = new AbortController();
+    requestControllerRef.current = controller;
+    return controller.signal;
+  }
+
+  // 問診の言語の声（やさしい日本語モードではゆっくり読み上げる）
+  function getSpeechVoice() {
+    const voice = toSpeechVoice(ttsSettingsRef.current, language);
+    return easyJapaneseRef.current ? toEasySpeechVoice(voice) : voice;
+  }
+
+  // アバターの発話（スクリプト問診ではOpenAI TTSを使わずブラウザの音声合成で読み上げ）
+  function speakAs(mode: InterviewMode, text: string, signal?: AbortSignal): Promise<void> {
+    const onPlayStart = () => {
+      // 音声再生が実際に開始されたときに呼ばれる
+      setIsTTSSpeaking(true);
+    };
+    const voice = getSpeechVoice();
+    pendingSpeechCountRef.current++;
+    setIsSpeechPending(true);
+    const speech = mode === 'scripted'
+      ? speakTextWithWebAPI(text, onPlayStart, voice)
+      : speakText(text, onPlayStart, signal, voice);
+    return speech.finally(() => {
+      pendingSpeechCountRef.current--;
+      if (pendingSpeechCountRef.current === 0) {
+        setIsSpeechPending(false);
+      }
+    });
+  }
+
+  // TTS再生中はSTTを停止（割り込み発話モードでは聞き続ける）
+  useEffect(() => {
+    if (isTTSSpeaking && !canBargeIn) {
       // TTS開始時
       if (sttStatus !== 'idle') {
         console.log('TTS開始、STTを停止');
         stopSTT();
       }
     }
-  }, [isTTSSpeaking, sttStatus, stopSTT]);
+  }, [isTTSSpeaking, canBargeIn, sttStatus, stopSTT]);
+
+  // 割り込み発話モード: 読み上げが始まったら音声認識を開始し、
+  // 患者が話さないまま読み上げが終わった場合は反響として聞こえた分を破棄して聞き続ける
+  useEffect(() => {
+    if (!canBargeIn || inputMode !== 'voice' || isPaused) return;
+
+    if (isTTSSpeaking) {
+      startSTT();
+    } else if (!bargedInRef.current && !bargeInDetectorRef.current.hasSpeech()) {
+      heardDuringSpeechRef.current = false;
+      resetSTT();
+    }
+  }, [isTTSSpeaking, canBargeIn, inputMode, isPaused, startSTT, resetSTT]);
+
+  // 割り込み発話モード: 読み上げ中に患者が話し続けたら読み上げを止め、発言を途中で中断したものとして記録
+  useEffect(() => {
+    if (!canBargeIn || !isTTSSpeaking || !transcript) return;
+
+    heardDuringSpeechRef.current = true;
+    const interrupted = lastAssistantMessage(messagesRef.current);
+    if (!bargeInDetectorRef.current.update(transcript, interrupted?.content || '')) return;
+
+    console.log('割り込み発話を検出、読み上げを停止');
+    bargedInRef.current = true;
+    stopSpeaking();
+    setIsTTSSpeaking(false);
+    if (interrupted) {
+      setMessages(prev => prev.map(m => (m.id === interrupted.id ? { ...m, truncated: true } : m)));
+    }
+  }, [canBargeIn, isTTSSpeaking, transcript]);
 
   function handleVoiceResult(transcript: string) {
-    if (transcript.trim()) {
-      handleSendMessage(transcript);
+    // 読み上げ中から聞き取った発話は、先頭に混じった読み上げの反響を除く
+    const content = heardDuringSpeechRef.current
+      ? removeEcho(transcript, lastAssistantMessage(messagesRef.current)?.content || '')
+      : transcript;
+    heardDuringSpeechRef.current = false;
+    bargedInRef.current = false;
+    bargeInDetectorRef.current.reset();
+    silenceRepromptCountRef.current = 0;
+
+    if (!content.trim()) return;
+    if (confirmVoiceInput) {
+      setPendingVoiceText(content.trim());
+      return;
+    }
+    handleSendMessage(content);
+  }
+
+  // 確認した（修正した）認識結果を送信
+  function handleConfirmVoice(text: string) {
+    setPendingVoiceText(null);
+    if (text.trim()) {
+      handleSendMessage(text.trim());
+    }
+  }
+
+  // 認識結果を破棄して聞き取りをやり直す
+  function handleRetryVoice() {
+    setPendingVoiceText(null);
+    startSTT();
+  }
+
+  // 音声認識のエラー（マイクの許可がない等）ではハンズフリーの自動再開を止める
+  function handleVoiceError(error: string) {
+    console.error('音声認識エラー:', error);
+    setHandsFree(false);
+  }
+
+  // ハンズフリーモードの切り替え
+  function handleHandsFreeChange(enabled: boolean) {
+    silenceRepromptCountRef.current = 0;
+    setHandsFree(enabled);
+  }
+
+  // 定型文に続けて読み上げる現在の質問（患者の言語で尋ねた内容、分からない場合は空文字）
+  function formatCurrentQuestion(question: Question): string {
+    if (interviewMode === 'scripted') return formatScriptedQuestion(question, language);
+    return language === DEFAULT_LANGUAGE ? question.text : lastAskedRef.current;
+  }
+
+  // ハンズフリー: 発話がないまま時間が経過した場合、現在の質問を読み上げ直す
+  async function handleSilenceReprompt() {
+    if (!currentQuestionnaire) return;
+    const currentQuestion = currentQuestionnaire.questions[currentQuestionIndex];
+    if (!currentQuestion) return;
+
+    stopSTT();
+    silenceRepromptCountRef.current++;
+    if (silenceRepromptCountRef.current > HANDS_FREE_MAX_REPROMPTS) {
+      console.log('ハンズフリー: 応答がないため自動の聞き取りを終了');
+      setHandsFree(false);
+      return;
+    }
+
+    const signal = beginRequest();
+    setIsWaitingForAI(true);
+    const repromptMessage: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: formatSilenceReprompt(language, formatCurrentQuestion(currentQuestion)),
+      timestamp: Date.now(),
+      emotion: 'gentle',
+    };
+    setMessages(prev => [...prev, repromptMessage]);
+    setCurrentEmotion('gentle');
+
+    try {
+      await speakAs(interviewMode, repromptMessage.content, signal);
+    } catch (error) {
+      console.error('TTS error:', error);
     }
+
+    // 再生中に次のメッセージが送信された場合は、そちらの処理に任せる
+    if (signal.aborted) return;
+    setIsTTSSpeaking(false);
+    setIsWaitingForAI(false);
   }
 
-  // 問診完了時の処理
-  async function handleCompleteQuestionnaire() {
-    const sessionToComplete = currentSession;
+  // 問診完了時の処理（直前に更新したセッションがあれば受け取る）
+  async function handleCompleteQuestionnaire(latestSession?: Session | null) {
+    const sessionToComplete = latestSession || currentSession;
     if (!sessionToComplete || !currentQuestionnaire) return;
 
     setIsGeneratingSummary(true);
+    const signal = beginRequest();
+    // 患者の言語のままの会話記録（要約は日本語で作成）
+    const transcript: TranscriptEntry[] = messagesRef.current.map(({ role, content, timestamp, truncated }) => ({
+      role,
+      content,
+      timestamp,
+      truncated,
+    }));
+
+    // スクリプト問診では記録した回答をそのまま要約画面に表示
+    if (sessionToComplete.interviewMode === 'scripted') {
+      const summaryResult = buildScriptedSummary(currentQuestionnaire.questions, sessionToComplete.answers);
+      const completedSession = {
+        ...sessionToComplete,
+        isCompleted: true,
+        formattedAnswers: summaryResult.formattedAnswers,
+        summary: summaryResult.summary,
+        transcript,
+        easyJapanese: easyJapaneseRef.current,
+      };
+      setCurrentSession(completedSession);
+      saveSession(completedSession);
+      setIsGeneratingSummary(false);
+      setShowSummary(true);
+      return;
+    }
 
     try {
       // 요약 AI를 호출하여 전체 대화에서 각 질문에 맞는 답변 추출
       const summaryResult = await generateSummary(
         currentQuestionnaire.questions,
-        messages.map(m => ({ role: m.role, content: m.content })),
-        apiKey
+        transcript.map(({ role, content }) => ({ role, content })),
+        sessionToComplete.answers,
+        { template: promptSetRef.current?.summary.body, settings: aiSettingsRef.current.summary, signal, language }
       );
 
       const completedSession = {
@@ -95,15 +406,21 @@ export default function Home() {
         isCompleted: true,
         formattedAnswers: summaryResult.formattedAnswers,
         summary: summaryResult.summary,
+        transcript,
+        easyJapanese: easyJapaneseRef.current,
       };
       setCurrentSession(completedSession);
       saveSession(completedSession);
     } catch (error) {
+      // ページ離脱などで中断された場合は何もしない
+      if (isAbortError(error)) return;
       console.error('要約生成エラー:', error);
       // 에러 시에도 세션 완료 처리
       const completedSession = {
         ...sessionToComplete,
         isCompleted: true,
+        transcript,
+        easyJapanese: easyJapaneseRef.current,
       };
       setCurrentSession(completedSession);
       saveSession(completedSession);
@@ -114,7 +431,10 @@ export default function Home() {
   }
 
   async function handleSendMessage(content: string) {
-    if (!currentQuestionnaire) return;
+    if (!currentQuestionnaire || isPaused) return;
+
+    // 前のメッセージに対する分析・対話生成・TTSを中断（古い応答が追加されないように）
+    const signal = beginRequest();
 
     // TTS停止
     stopSpeaking();
@@ -136,111 +456,228 @@ export default function Home() {
     const updatedMessages: ChatMessage[] = [...messages, userMessage];
     setMessages(updatedMessages);
 
-    // セッションに答えを保存（現在の質問に対して）
-    const currentQuestion = currentQuestionnaire.questions[currentQuestionIndex];
-    let updatedSession: Session | null = null;
+    // AIへの指示の書き換えや問診と無関係な依頼はLLMに渡さず、現在の質問に話を戻す
+    // 緊急の症状を含む場合はガードより優先してレッドフラグとして扱う
+    const guardAlert = checkPatientInput(content);
+    if (guardAlert) {
+      const config = redFlagConfigRef.current;
+      let redFlag: RedFlagAlert | null = null;
+      try {
+        if (config) {
+          redFlag = interviewMode === 'scripted'
+            ? matchRedFlagRules(content, config.rules)
+            : await detectRedFlag(content, config, aiSettingsRef.current.redflag, signal);
+        }
+      } catch (error) {
+        if (isAbortError(error)) return;
+        throw error;
+      }
 
-    if (currentSession) {
-      updatedSession = {
-        ...currentSession,
-        answers: [
-          ...currentSession.answers,
-          {
-            id: Date.now().toString(),
-            questionId: currentQuestion.id,
-            questionText: currentQuestion.text, // 質問テキストも保存
-            answer: content,
-            timestamp: Date.now(),
-          },
-        ],
-        currentQuestionIndex: currentQuestionIndex,
-        answeredQuestionIds: currentSession.answeredQuestionIds || [],
-      };
-      setCurrentSession(updatedSession);
-      saveSession(updatedSession);
+      if (redFlag) {
+        const guardedSession = currentSession
+          ? { ...currentSession, guardFlags: [...(currentSession.guardFlags || []), guardAlert] }
+          : null;
+        await escalateRedFlag(redFlag, guardedSession, signal);
+      } else {
+        await handleGuardedInput(guardAlert, signal);
+      }
+      return;
     }
 
+    // 「意味がわからない」などが続いた場合はやさしい日本語に切り替える
+    const isConfused = language === DEFAULT_LANGUAGE && isConfusionUtterance(content);
+    if (isConfused && !easyJapaneseRef.current) {
+      confusionCountRef.current++;
+      if (confusionCountRef.current >= CONFUSION_THRESHOLD) {
+        console.log('理解が難しい様子のため、やさしい日本語モードに切り替えます');
+        easyJapaneseRef.current = true;
+        setEasyJapanese(true);
+        await announceEasyJapanese(signal);
+        if (signal.aborted) return;
+      }
+    }
+
+    if (interviewMode === 'scripted') {
+      await handleScriptedAnswer(content, signal);
+      return;
+    }
+
+    const currentQuestion = currentQuestionnaire.questions[currentQuestionIndex];
+    let updatedSession: Session | null = null;
+
     // AI応答を生成
     const totalQuestions = currentQuestionnaire.questions.length;
     const isLastQuestion = currentQuestionIndex >= totalQuestions - 1;
 
 
     try {
-      // 【1段階AI】ユーザーの回答を分析
-      const analysisResult = await analyzeUserAnswer(
-        content,
-        currentQuestionnaire.questions,
-        updatedSession?.answeredQuestionIds || [],
-        apiKey
-      );
+      // 【1段階AI】ユーザーの回答を分析（現在の質問への追加回答も抽出対象に含める）
+      // レッドフラグ判定（ルール + 任意のLLM分類器）も並行して実行
+      const previousAnsweredIds = currentSession?.answeredQuestionIds || [];
+      const [redFlag, analysisResult] = await Promise.all([
+        redFlagConfigRef.current
+          ? detectRedFlag(content, redFlagConfigRef.current, aiSettingsRef.current.redflag, signal)
+          : Promise.resolve(null),
+        analyzeUserAnswer(
+          content,
+          currentQuestionnaire.questions,
+          previousAnsweredIds.filter(id => id !== currentQuestion.id),
+          { template: promptSetRef.current?.analyze.body, settings: aiSettingsRef.current.analyze, signal, language }
+        ),
+      ]);
 
       console.log('【1段階AI】分析結果:', analysisResult);
 
-      // 分析結果をセッションに反映
-      if (analysisResult.answeredQuestions.length > 0 && updatedSession) {
-        const newAnsweredIds = [...(updatedSession.answeredQuestionIds || [])];
-
-        analysisResult.answeredQuestions.forEach(qId => {
-          if (!newAnsweredIds.includes(qId)) {
-            newAnsweredIds.push(qId);
-
-            // 現在の質問以外の質問に対する答えも保存
-            if (qId !== currentQuestion.id) {
-              const question = currentQuestionnaire.questions.find(q => q.id === qId);
-              if (question) {
-                updatedSession.answers.push({
-                  id: `${Date.now()}-${qId}`,
-                  questionId: qId,
-                  questionText: question.text,
-                  answer: content,
-                  timestamp: Date.now(),
-                });
-              }
-            }
+      // 質問ごとに抽出された回答をセッションに保存
+      if (currentSession) {
+        const now = Date.now();
+        const newAnswers: Answer[] = analysisResult.answers.map(extracted => ({
+          id: `${now}-${extracted.questionId}`,
+          questionId: extracted.questionId,
+          questionText: currentQuestionnaire.questions.find(q => q.id === extracted.questionId)?.text || '',
+          answer: extracted.value,
+          evidence: extracted.evidence,
+          symptoms: extracted.symptoms,
+          normalizedValue: extracted.normalizedValue,
+          timestamp: now,
+        }));
+
+        // 現在の質問への回答が抽出されなかった場合は発話をそのまま保存
+        // （選択肢・スケールの質問では発話から照合できた値も記録）
+        if (!analysisResult.answers.some(a => a.questionId === currentQuestion.id)) {
+          newAnswers.unshift({
+            id: now.toString(),
+            questionId: currentQuestion.id,
+            questionText: currentQuestion.text, // 質問テキストも保存
+            answer: content,
+            normalizedValue: normalizeAnswer(currentQuestion, content) ?? undefined,
+            timestamp: now,
+          });
+        }
+
+        const newAnsweredIds = [...previousAnsweredIds];
+        analysisResult.answers.forEach(({ questionId }) => {
+          if (!newAnsweredIds.includes(questionId)) {
+            newAnsweredIds.push(questionId);
           }
         });
 
-        updatedSession.answeredQuestionIds = newAnsweredIds;
+        updatedSession = {
+          ...currentSession,
+          answers: [...currentSession.answers, ...newAnswers],
+          currentQuestionIndex: currentQuestionIndex,
+          answeredQuestionIds: newAnsweredIds,
+        };
         setCurrentSession(updatedSession);
         saveSession(updatedSession);
 
         console.log('回答済み質問ID:', newAnsweredIds);
       }
 
-      // 【2段階AI】対話を生成
-      const conversationHistory = updatedMessages.map(m => ({ role: m.role, content: m.content }));
+      // レッドフラグ検出時は通常の問診を中断（抽出済みの回答は保存したまま）
+      if (redFlag) {
+        await escalateRedFlag(redFlag, updatedSession || currentSession, signal);
+        return;
+      }
+
+      // 【2段階AI】対話を生成（ストリーミング、文ごとに読み上げ）
+      // 予算を超えた古い会話はファクトシートに圧縮し、直近の会話のみを渡す
+      const compacted = await compactConversation(
+        conversationMemoryRef.current,
+        messages.map(m => ({ role: m.role, content: m.content })),
+        aiSettingsRef.current,
+        signal
+      );
+      conversationMemoryRef.current = compacted.memory;
+      const sessionAnswers = (updatedSession || currentSession)?.answers || [];
+      const factSheet = formatFactSheet(compacted.memory, sessionAnswers);
+      const aiMessageId = (Date.now() + 1).toString();
+      const speechQueue = createSpeechQueue(() => {
+        // 音声再生が実際に開始されたときに呼ばれる
+        setIsTTSSpeaking(true);
+      }, getSpeechVoice());
+      let hasStreamedSpeech = false;
+
+      // AIメッセージを追加または更新
+      const upsertAIMessage = (update: Partial<ChatMessage>) => {
+        if (signal.aborted) return;
+        setMessages(prev => prev.some(m => m.id === aiMessageId)
+          ? prev.map(m => (m.id === aiMessageId ? { ...m, ...update } : m))
+          : [...prev, {
+              id: aiMessageId,
+              role: 'assistant',
+              content: '',
+              timestamp: Date.now(),
+              ...update,
+            }]);
+      };
+
       const aiResponse = await generateAIResponse(
         currentQuestion,
         content,
-        conversationHistory,
-        apiKey,
-        isLastQuestion
+        compacted.recentHistory,
+        factSheet,
+        isLastQuestion,
+        {
+          template: promptSetRef.current?.respond.body,
+          settings: aiSettingsRef.current.respond,
+          signal,
+          language,
+          easyJapanese: easyJapaneseRef.current,
+          symptoms: collectSymptoms(sessionAnswers, currentQuestion.id),
+          questionAnswers: sessionAnswers.filter(a => a.questionId === currentQuestion.id),
+          stream: {
+            onReplyText: (reply) => upsertAIMessage({ content: reply, isStreaming: true }),
+            onSentence: (sentence) => {
+              hasStreamedSpeech = true;
+              speechQueue.enqueue(sentence);
+            },
+            onReset: () => {
+              hasStreamedSpeech = false;
+              speechQueue.clear();
+              upsertAIMessage({ content: '', isStreaming: true });
+            },
+          },
+        }
       );
 
       console.log('【2段階AI】応答:', aiResponse);
 
-      // AIメッセージを追加
-      const aiMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
+      // 生成完了: 本文と感情を確定
+      upsertAIMessage({
         content: aiResponse.reply,
-        timestamp: Date.now(),
+        furigana: aiResponse.furigana,
         emotion: aiResponse.emotion,
-      };
-      setMessages(prev => [...prev, aiMessage]);
+        isStreaming: false,
+      });
       setCurrentEmotion(aiResponse.emotion);
+      if (!aiResponse.isFallback) {
+        lastAskedRef.current = aiResponse.reply;
+      }
 
-      // TTS再生
+      // ストリーミングされなかった応答（エラー時の定型文など）はまとめて読み上げ
+      if (!hasStreamedSpeech) {
+        speechQueue.enqueue(aiResponse.reply);
+      }
+      speechQueue.end();
+
+      // TTS再生（残りの文の再生完了まで待機）
       try {
-        await speakText(aiResponse.reply, apiKey, () => {
-          // 音声再生が実際に開始されたときに呼ばれる
-          setIsTTSSpeaking(true);
-        });
+        await speechQueue.done;
       } catch (error) {
         console.error('TTS error:', error);
-      } finally {
-        setIsTTSSpeaking(false);
-        setIsWaitingForAI(false);
+      }
+
+      // 再生中に次のメッセージが送信された場合は、そちらの処理に任せる
+      if (signal.aborted) return;
+      setIsTTSSpeaking(false);
+      setIsWaitingForAI(false);
+
+      // AI応答の失敗が続いた場合はスクリプト問診に切り替えて問診を続ける
+      aiFailureCountRef.current = aiResponse.isFallback ? aiFailureCountRef.current + 1 : 0;
+      if (aiFailureCountRef.current >= AI_FAILURE_THRESHOLD) {
+        await switchToScriptedMode(updatedSession || currentSession, signal);
+        return;
       }
 
       // TTS再生完了後の処理
@@ -263,7 +700,7 @@ export default function Home() {
         if (allQuestionsAnswered) {
           // すべての質問に回答済み → 要約生成
           console.log('すべての質問に回答済み → 要約生成開始');
-          handleCompleteQuestionnaire();
+          handleCompleteQuestionnaire(updatedSession);
         } else {
           // 次の質問へ移動
           setTimeout(() => {
@@ -275,24 +712,287 @@ export default function Home() {
       // 마지막 질문이고 isComplete가 true면 즉시 요약 생성
       if (isLastQuestion && aiResponse.isComplete) {
         setTimeout(() => {
-          handleCompleteQuestionnaire();
+          handleCompleteQuestionnaire(updatedSession);
         }, 500);
       }
     } catch (error) {
+      // 新しいメッセージの送信・ページ離脱で中断された場合は応答を追加しない
+      if (isAbortError(error)) {
+        console.log('AI応答を中断しました');
+        return;
+      }
       console.error('AI応答エラー:', error);
       // エラーメッセージを追加
       const errorMessage: ChatMessage = {
         id: (Date.now() + 2).toString(),
         role: 'assistant',
-        content: '申し訳ございません。エラーが発生しました。もう一度お願いできますか？',
+        content: LANGUAGES[language].fallbackReply,
         timestamp: Date.now(),
         emotion: 'neutral',
       };
       setMessages(prev => [...prev, errorMessage]);
       setIsWaitingForAI(false);
+
+      aiFailureCountRef.current++;
+      if (aiFailureCountRef.current >= AI_FAILURE_THRESHOLD) {
+        await switchToScriptedMode(updatedSession || currentSession, signal);
+      }
+    }
+  }
+
+  // やさしい日本語に自動で切り替えたことを伝える（続けて質問を聞き直す）
+  async function announceEasyJapanese(signal: AbortSignal) {
+    const switchMessage: ChatMessage = {
+      id: `${Date.now()}-easy`,
+      role: 'assistant',
+      content: EASY_JAPANESE_SWITCH_MESSAGE,
+      timestamp: Date.now(),
+      emotion: 'gentle',
+    };
+    setMessages(prev => [...prev, switchMessage]);
+    setCurrentEmotion('gentle');
+
+    try {
+      await speakAs(interviewMode, switchMessage.content, signal);
+    } catch (error) {
+      console.error('TTS error:', error);
+    }
+    setIsTTSSpeaking(false);
+  }
+
+  // アバターのメッセージを追加して読み上げ（スクリプト問診用）
+  async function speakScriptedMessage(content: string, signal: AbortSignal) {
+    const message: ChatMessage = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content,
+      timestamp: Date.now(),
+      emotion: 'gentle',
+    };
+    setMessages(prev => [...prev, message]);
+    setCurrentEmotion('gentle');
+
+    try {
+      await speakAs('scripted', content);
+    } catch (error) {
+      console.error('TTS error:', error);
+    }
+
+    // 再生中に次のメッセージが送信された場合は、そちらの処理に任せる
+    if (signal.aborted) return;
+    setIsTTSSpeaking(false);
+    setIsWaitingForAI(false);
+  }
+
+  // スクリプト問診: 発話をそのまま現在の質問の回答として記録し、次の質問を読み上げる
+  async function handleScriptedAnswer(content: string, signal: AbortSignal) {
+    if (!currentQuestionnaire || !currentSession) return;
+
+    const questions = currentQuestionnaire.questions;
+
+    // レッドフラグはルールのみで判定（LLM分類器は使用しない）
+    // 回答として記録せずに聞き直す場合も見逃さないように、先に判定する
+    const redFlag = redFlagConfigRef.current
+      ? matchRedFlagRules(content, redFlagConfigRef.current.rules)
+      : null;
+
+    // 質問が伝わっていない場合は回答として記録せず、もう一度読み上げる
+    if (!redFlag && language === DEFAULT_LANGUAGE && isConfusionUtterance(content)) {
+      await speakScriptedMessage(
+        joinSentences(language, LANGUAGES[language].reask, formatScriptedQuestion(questions[currentQuestionIndex], language)),
+        signal
+      );
+      return;
+    }
+
+    const answeredIds = currentSession.answeredQuestionIds || [];
+    const turn = runScriptedTurn(
+      questions,
+      currentQuestionIndex,
+      answeredIds,
+      content,
+      scriptedRetryCountRef.current,
+      language
+    );
+
+    // 選択肢に一致しない場合は聞き直す（レッドフラグがあれば回答を記録せずに中断）
+    if (turn.answer === null) {
+      if (redFlag) {
+        await escalateRedFlag(redFlag, currentSession, signal);
+        return;
+      }
+      scriptedRetryCountRef.current++;
+      await speakScriptedMessage(turn.reply, signal);
+      return;
+    }
+    scriptedRetryCountRef.current = 0;
+
+    const currentQuestion = questions[currentQuestionIndex];
+    const now = Date.now();
+    const updatedSession: Session = {
+      ...currentSession,
+      answers: [...currentSession.answers, {
+        id: now.toString(),
+        questionId: currentQuestion.id,
+        questionText: currentQuestion.text,
+        answer: turn.answer,
+        normalizedValue: turn.normalizedValue,
+        timestamp: now,
+      }],
+      currentQuestionIndex,
+      answeredQuestionIds: answeredIds.includes(currentQuestion.id) ? answeredIds : [...answeredIds, currentQuestion.id],
+    };
+    setCurrentSession(updatedSession);
+    saveSession(updatedSession);
+
+    if (redFlag) {
+      await escalateRedFlag(redFlag, updatedSession, signal);
+      return;
+    }
+
+    if (turn.nextIndex >= 0) {
+      setCurrentQuestionIndex(turn.nextIndex);
+    }
+    await speakScriptedMessage(turn.reply, signal);
+    if (signal.aborted) return;
+
+    if (turn.nextIndex < 0) {
+      handleCompleteQuestionnaire(updatedSession);
     }
   }
 
+  // AI問診からスクリプト問診に切り替え、未回答の質問から読み上げる
+  async function switchToScriptedMode(session: Session | null, signal: AbortSignal) {
+    if (!currentQuestionnaire) return;
+    console.warn('AI応答の失敗が続いたため、スクリプト問診に切り替えます');
+
+    setInterviewMode('scripted');
+    scriptedRetryCountRef.current = 0;
+
+    const scriptedSession = session ? { ...session, interviewMode: 'scripted' as const } : null;
+    if (scriptedSession) {
+      setCurrentSession(scriptedSession);
+      saveSession(scriptedSession);
+    }
+
+    const questions = currentQuestionnaire.questions;
+    const nextIndex = findNextQuestionIndex(questions, currentQuestionIndex, scriptedSession?.answeredQuestionIds || []);
+    if (nextIndex < 0) {
+      handleCompleteQuestionnaire(scriptedSession);
+      return;
+    }
+
+    setCurrentQuestionIndex(nextIndex);
+    await speakScriptedMessage(
+      joinSentences(language, LANGUAGES[language].scripted.switchNotice, formatScriptedQuestion(questions[nextIndex], language)),
+      signal
+    );
+  }
+
+  // レッドフラグ検出: セッションに記録し、深刻な表情でスタッフへの連絡を案内する
+  async function escalateRedFlag(alert: RedFlagAlert, session: Session | null, signal: AbortSignal) {
+    console.warn('【レッドフラグ】検出:', alert);
+    setIsPaused(true);
+
+    if (session) {
+      const flaggedSession: Session = {
+        ...session,
+        redFlags: [...(session.redFlags || []), alert],
+      };
+      setCurrentSession(flaggedSession);
+      saveSession(flaggedSession);
+    }
+
+    const escalationMessage: ChatMessage = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content: redFlagConfigRef.current?.escalationMessage || LANGUAGES[language].escalationMessage,
+      timestamp: Date.now(),
+      emotion: 'serious',
+    };
+    setMessages(prev => [...prev, escalationMessage]);
+    setCurrentEmotion('serious');
+
+    try {
+      await speakAs(session?.interviewMode || interviewMode, escalationMessage.content, signal);
+    } catch (error) {
+      console.error('TTS error:', error);
+    } finally {
+      setIsTTSSpeaking(false);
+      setIsWaitingForAI(false);
+    }
+  }
+
+  // 入力ガード: セッションに記録してスタッフの確認対象とし、定型文で現在の質問に戻る
+  async function handleGuardedInput(alert: InputGuardAlert, signal: AbortSignal) {
+    if (!currentQuestionnaire) return;
+    console.warn('【入力ガード】検出:', alert);
+
+    if (currentSession) {
+      const flaggedSession: Session = {
+        ...currentSession,
+        guardFlags: [...(currentSession.guardFlags || []), alert],
+      };
+      setCurrentSession(flaggedSession);
+      saveSession(flaggedSession);
+    }
+
+    const currentQuestion = currentQuestionnaire.questions[currentQuestionIndex];
+    const guardMessage: ChatMessage = {
+      id: (Date.now() + 1).toString(),
+      role: 'assistant',
+      content: formatGuardReply(language, formatCurrentQuestion(currentQuestion)),
+      timestamp: Date.now(),
+      emotion: 'gentle',
+    };
+    setMessages(prev => [...prev, guardMessage]);
+    setCurrentEmotion('gentle');
+
+    try {
+      await speakAs(interviewMode, guardMessage.content, signal);
+    } catch (error) {
+      console.error('TTS error:', error);
+    }
+
+    // 再生中に次のメッセージが送信された場合は、そちらの処理に任せる
+    if (signal.aborted) return;
+    setIsTTSSpeaking(false);
+    setIsWaitingForAI(false);
+  }
+
+  // スタッフが確認した後、中断した質問から問診を再開
+  function handleResume() {
+    if (!currentQuestionnaire) return;
+
+    setIsPaused(false);
+    if (currentSession?.redFlags) {
+      const now = Date.now();
+      const acknowledgedSession: Session = {
+        ...currentSession,
+        redFlags: currentSession.redFlags.map(flag => flag.acknowledgedAt ? flag : { ...flag, acknowledgedAt: now }),
+      };
+      setCurrentSession(acknowledgedSession);
+      saveSession(acknowledgedSession);
+    }
+
+    const currentQuestion = currentQuestionnaire.questions[currentQuestionIndex];
+    const resumeMessage: ChatMessage = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: joinSentences(language, LANGUAGES[language].resumeMessage, formatCurrentQuestion(currentQuestion)),
+      timestamp: Date.now(),
+      emotion: 'gentle',
+    };
+    setMessages(prev => [...prev, resumeMessage]);
+    setCurrentEmotion('gentle');
+
+    speakAs(interviewMode, resumeMessage.content).catch((error) => {
+      console.error('TTS error:', error);
+    }).finally(() => {
+      setIsTTSSpeaking(false);
+    });
+  }
+
   function handleEditAnswer(questionIndex: number) {
     // 이 함수는 더 이상 사용하지 않음 (인라인 편집으로 대체)
     // 하위 호환성을 위해 유지
@@ -303,10 +1003,13 @@ export default function Home() {
     // 인라인 편집에서 답변 수정 시 호출
     if (currentSession && currentSession.formattedAnswers) {
       const updatedFormattedAnswers = [...currentSession.formattedAnswers];
+      const question = currentQuestionnaire?.questions.find(q => q.id === updatedFormattedAnswers[index].questionId);
       updatedFormattedAnswers[index] = {
         ...updatedFormattedAnswers[index],
         extractedAnswer: newAnswer,
         confidence: 'high', // 수동 수정은 높은 신뢰도
+        // 修正した回答を選択肢・スケールに当てはめ直す
+        normalizedValue: question ? normalizeAnswer(question, newAnswer) ?? undefined : undefined,
       };
 
       const updatedSession = {
@@ -319,6 +1022,22 @@ export default function Home() {
     }
   }
 
+  function handleUpdateSymptoms(index: number, symptoms: SymptomRecord[]) {
+    // 症状の表を編集した場合
+    if (currentSession && currentSession.formattedAnswers) {
+      const updatedFormattedAnswers = [...currentSession.formattedAnswers];
+      updatedFormattedAnswers[index] = { ...updatedFormattedAnswers[index], symptoms };
+
+      const updatedSession = {
+        ...currentSession,
+        formattedAnswers: updatedFormattedAnswers,
+      };
+
+      setCurrentSession(updatedSession);
+      saveSession(updatedSession);
+    }
+  }
+
   function handleConfirmSummary() {
     // 最終保存して初期画面に戻る
     if (currentSession) {
@@ -331,31 +1050,77 @@ export default function Home() {
     setMessages([]);
     setCurrentQuestionIndex(0);
     setCurrentSession(null);
+    setEasyJapanese(false);
+    conversationMemoryRef.current = EMPTY_MEMORY;
+    setSessionRedactor(null);
   }
 
   function handleStart() {
     if (!currentQuestionnaire) return;
 
     setIsStarted(true);
+    conversationMemoryRef.current = EMPTY_MEMORY;
+
+    // プロンプトテンプレートをセッション中は固定
+    const promptSet = resolvePromptSet(currentQuestionnaire.id);
+    promptSetRef.current = promptSet;
+    // AI生成設定も同様に固定（共通設定 + 文診表ごとの上書き）
+    aiSettingsRef.current = resolveAISettings(currentQuestionnaire.id);
+    redFlagConfigRef.current = resolveRedFlagConfig(currentQuestionnaire.id, language);
+    // 読み上げの声（共通設定 + アバター・文診表ごとの上書き）
+    ttsSettingsRef.current = resolveTTSSettings(currentQuestionnaire.id, DEFAULT_AVATAR_ID);
+    setVADProfileId(getVADProfileId());
+    setSTTSettings(getSTTSettings());
+    setPendingVoiceText(null);
+    setIsPaused(false);
+    const mode = resolveInterviewMode(currentQuestionnaire.id);
+    setInterviewMode(mode);
+    aiFailureCountRef.current = 0;
+    scriptedRetryCountRef.current = 0;
+    // やさしい日本語は日本語の問診のみ
+    const isEasyJapanese = easyJapanese && language === DEFAULT_LANGUAGE;
+    easyJapaneseRef.current = isEasyJapanese;
+    setEasyJapanese(isEasyJapanese);
+    confusionCountRef.current = 0;
+    lastAskedRef.current = '';
 
     // セッション作成
+    const sessionId = Date.now().toString();
+    // 問診中のLLM呼び出しでは氏名・電話番号などを伏せ字に置き換える
+    setSessionRedactor(createPIIRedactor(sessionId));
     const newSession: Session = {
-      sessionId: Date.now().toString(),
+      sessionId,
       questionnaireId: currentQuestionnaire.id,
       createdAt: Date.now(),
       answers: [],
       currentQuestionIndex: 0,
       isCompleted: false,
       answeredQuestionIds: [], // 初期化
+      promptVersions: {
+        analyze: promptSet.analyze.versionId,
+        respond: promptSet.respond.versionId,
+        summary: promptSet.summary.versionId,
+      },
+      interviewMode: mode,
+      language,
+      easyJapanese: isEasyJapanese,
     };
     setCurrentSession(newSession);
     saveSession(newSession);
 
-    // 初期メッセージ
+    // 初期メッセージ（スクリプト問診では最初の質問まで読み上げる）
+    const greeting = LANGUAGES[language].welcomeMessage;
     const welcomeMessage: ChatMessage = {
       id: Date.now().toString(),
       role: 'assistant',
-      content: 'こんにちは。本日の問診を担当いたします。よろしくお願いします。',
+      content: mode === 'scripted'
+        ? joinSentences(
+          language,
+          greeting,
+          LANGUAGES[language].scripted.intro,
+          formatScriptedQuestion(currentQuestionnaire.questions[0], language)
+        )
+        : greeting,
       timestamp: Date.now(),
       emotion: 'gentle',
     };
@@ -363,9 +1128,8 @@ export default function Home() {
     setCurrentEmotion('gentle');
 
     // TTS再生
-    speakText(welcomeMessage.content, apiKey, () => {
-      // 音声再生が実際に開始されたときに呼ばれる
-      setIsTTSSpeaking(true);
+    speakAs(mode, welcomeMessage.content).catch((error) => {
+      console.error('TTS error:', error);
     }).finally(() => {
       setIsTTSSpeaking(false);
     });
@@ -392,6 +1156,7 @@ export default function Home() {
           onEdit={handleEditAnswer}
           onConfirm={handleConfirmSummary}
           onUpdateAnswer={handleUpdateAnswer}
+          onUpdateSymptoms={handleUpdateSymptoms}
         />
       )}
 
@@ -421,6 +1186,33 @@ export default function Home() {
                 音声対話型の問診システムです
               </p>
             </div>
+            {/* 言語の選択 */}
+            <div className="mb-8 flex flex-wrap justify-center gap-3">
+              {INTERVIEW_LANGUAGES.map((lang) => (
+                <button
+                  key={lang}
+                  onClick={() => setLanguage(lang)}
+                  className={`px-5 py-2 rounded-full border-2 font-medium transition-colors ${
+                    language === lang
+                      ? 'border-[#0066CC] bg-[#0066CC] text-white'
+                      : 'border-gray-300 bg-white text-gray-700 hover:border-[#0066CC]'
+                  }`}
+                >
+                  {LANGUAGES[lang].label}
+                </button>
+              ))}
+            </div>
+            {language === DEFAULT_LANGUAGE && (
+              <label className="mb-8 flex items-center gap-2 text-lg text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={easyJapanese}
+                  onChange={(e) => setEasyJapanese(e.target.checked)}
+                  className="w-5 h-5"
+                />
+                やさしい日本語（ゆっくり・かんたんな ことばで 話します）
+              </label>
+            )}
             <button
               onClick={handleStart}
               className="px-8 py-4 gradient-primary text-white text-lg font-bold rounded-full shadow-yuyama-lg hover:opacity-90 transition-all transform hover:scale-105"
@@ -439,16 +1231,31 @@ export default function Home() {
                 sttStatus={sttStatus}
                 isTTSSpeaking={isTTSSpeaking}
                 isWaitingForAI={isWaitingForAI}
+                isPaused={isPaused}
+                easyMode={easyJapanese}
                 onSendMessage={handleSendMessage}
                 onModeChange={setInputMode}
                 onStartVoice={startSTT}
                 onStopVoice={stopSTT}
+                onResume={handleResume}
+                bargeIn={bargeIn}
+                onBargeInChange={setBargeIn}
+                bargeInAvailable={isSTTStreaming}
+                voiceSupported={isVoiceSupported}
+                handsFree={handsFree}
+                onHandsFreeChange={handleHandsFreeChange}
+                interimTranscript={isTTSSpeaking ? '' : transcript}
+                confirmVoiceInput={confirmVoiceInput}
+                onConfirmVoiceInputChange={setConfirmVoiceInput}
+                pendingVoiceText={pendingVoiceText}
+                onConfirmVoice={handleConfirmVoice}
+                onRetryVoice={handleRetryVoice}
               />
             </div>
 
             {/* 右：3Dアバター */}
             <div className="h-full min-h-0 relative">
-              <Avatar3D emotion={currentEmotion} isSpeaking={isTTSSpeaking} />
+              <Avatar3D avatarId={DEFAULT_AVATAR_ID} emotion={currentEmotion} isSpeaking={isTTSSpeaking} />
 
               {/* 進行状況 */}
               {currentQuestionnaire && (
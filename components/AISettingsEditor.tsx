@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { InterviewMode, Questionnaire } from '@/types';
+import type { LLMStage } from '@/lib/llm';
+import {
+  AI_STAGES,
+  AI_STAGE_LABELS,
+  AISettings,
+  AISettingsOverride,
+  DEFAULT_AI_SETTINGS,
+  INTERVIEW_MODE_LABELS,
+  StageSettings,
+  getAISettingsStore,
+  saveAISettingsStore,
+} from '@/lib/settings';
+
+interface AISettingsEditorProps {
+  questionnaires: Questionnaire[];
+}
+
+// 共通設定を表すスコープ
+const GLOBAL_SCOPE = 'default';
+
+type SettingKey = keyof StageSettings;
+
+// 編集中の値（入力欄の文字列、空欄は上書きなし）
+type Draft = Record<LLMStage, Record<SettingKey, string>>;
+
+// 項目ごとの表示名と入力範囲
+const FIELDS: { key: SettingKey; label: string; min?: number; max?: number; step?: number }[] = [
+  { key: 'model', label: 'モデル' },
+  { key: 'temperature', label: 'temperature', min: 0, max: 2, step: 0.1 },
+  { key: 'maxTokens', label: '最大トークン', min: 1, max: 16384, step: 1 },
+  { key: 'timeoutMs', label: 'タイムアウト(ms)', min: 1000, max: 300000, step: 1000 },
+  { key: 'retries', label: '再試行回数', min: 0, max: 5, step: 1 },
+];
+
+// 設定を入力欄の文字列に変換
+function toDraft(settings: AISettingsOverride): Draft {
+  return AI_STAGES.reduce((draft, stage) => {
+    draft[stage] = FIELDS.reduce((row, { key }) => {
+      const value = settings[stage]?.[key];
+      row[key] = value === undefined ? '' : String(value);
+      return row;
+    }, {} as Record<SettingKey, string>);
+    return draft;
+  }, {} as Draft);
+}
+
+// 入力欄の文字列を設定に変換（範囲外の値はエラー）
+function fromDraft(draft: Draft): { settings: AISettingsOverride } | { error: string } {
+  const settings: AISettingsOverride = {};
+
+  for (const stage of AI_STAGES) {
+    const stageSettings: Partial<StageSettings> = {};
+
+    for (const { key, label, min, max } of FIELDS) {
+      const raw = draft[stage][key].trim();
+      if (!raw) continue;
+
+      if (key === 'model') {
+        stageSettings.model = raw;
+        continue;
+      }
+
+      const value = Number(raw);
+      if (!Number.isFinite(value) || (min !== undefined && value < min) || (max !== undefined && value > max)) {
+        return { error: `${AI_STAGE_LABELS[stage]}の「${label}」は ${min}〜${max} の数値で入力してください` };
+      }
+      stageSettings[key] = key === 'temperature' ? value : Math.round(value);
+    }
+
+    if (Object.keys(stageSettings).length > 0) {
+      settings[stage] = stageSettings;
+    }
+  }
+
+  return { settings };
+}
+
+export default function AISettingsEditor({ questionnaires }: AISettingsEditorProps) {
+  const [scope, setScope] = useState(GLOBAL_SCOPE);
+  const [globalSettings, setGlobalSettings] = useState<AISettings>(() => getAISettingsStore().global);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(getAISettingsStore().global));
+  // 問診の進め方（文診表ごとの場合、空文字は共通設定に従う）
+  const [modeDraft, setModeDraft] = useState<InterviewMode | ''>(() => getAISettingsStore().interviewMode);
+  const [globalMode, setGlobalMode] = useState<InterviewMode>(() => getAISettingsStore().interviewMode);
+
+  const isGlobal = scope === GLOBAL_SCOPE;
+
+  // スコープを切り替えたら保存済みの設定を読み込み直す
+  function loadScope(nextScope: string) {
+    const store = getAISettingsStore();
+    setScope(nextScope);
+    setGlobalSettings(store.global);
+    setDraft(toDraft(nextScope === GLOBAL_SCOPE ? store.global : store.overrides[nextScope] || {}));
+    setGlobalMode(store.interviewMode);
+    setModeDraft(nextScope === GLOBAL_SCOPE ? store.interviewMode : store.interviewModeOverrides[nextScope] || '');
+  }
+
+  function updateField(stage: LLMStage, key: SettingKey, value: string) {
+    setDraft(prev => ({ ...prev, [stage]: { ...prev[stage], [key]: value } }));
+  }
+
+  function handleSave() {
+    const result = fromDraft(draft);
+    if ('error' in result) {
+      alert(result.error);
+      return;
+    }
+
+    const store = getAISettingsStore();
+    if (isGlobal) {
+      // 共通設定は空欄の項目をデフォルト値で補う
+      const global = AI_STAGES.reduce((settings, stage) => {
+        settings[stage] = { ...DEFAULT_AI_SETTINGS[stage], ...result.settings[stage] };
+        return settings;
+      }, {} as AISettings);
+      const interviewMode = modeDraft || 'ai';
+      saveAISettingsStore({ ...store, global, interviewMode });
+      setGlobalSettings(global);
+      setGlobalMode(interviewMode);
+      setDraft(toDraft(global));
+    } else {
+      const overrides = { ...store.overrides };
+      if (Object.keys(result.settings).length > 0) {
+        overrides[scope] = result.settings;
+      } else {
+        delete overrides[scope];
+      }
+      const interviewModeOverrides = { ...store.interviewModeOverrides };
+      if (modeDraft) {
+        interviewModeOverrides[scope] = modeDraft;
+      } else {
+        delete interviewModeOverrides[scope];
+      }
+      saveAISettingsStore({ ...store, overrides, interviewModeOverrides });
+    }
+    alert('AI設定を保存しました（次のセッションから適用されます）');
+  }
+
+  function handleReset() {
+    if (isGlobal) {
+      setDraft(toDraft(DEFAULT_AI_SETTINGS));
+      setModeDraft('ai');
+    } else {
+      setDraft(toDraft({}));
+      setModeDraft('');
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-yuyama p-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-6">AI設定</h2>
+
+      {/* 対象の選択 */}
+      <div className="mb-6 max-w-md">
+        <label className="block text-sm font-medium text-gray-700 mb-1">適用範囲</label>
+        <select
+          value={scope}
+          onChange={(e) => loadScope(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+        >
+          <option value={GLOBAL_SCOPE}>全文診表共通</option>
+          {questionnaires.map((q) => (
+            <option key={q.id} value={q.id}>{q.title}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* 問診の進め方 */}
+      <div className="mb-6 max-w-md">
+        <label className="block text-sm font-medium text-gray-700 mb-1">問診の進め方</label>
+        <select
+          value={modeDraft}
+          onChange={(e) => setModeDraft(e.target.value as InterviewMode | '')}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+        >
+          {!isGlobal && (
+            <option value="">共通設定に従う（{INTERVIEW_MODE_LABELS[globalMode]}）</option>
+          )}
+          {(Object.keys(INTERVIEW_MODE_LABELS) as InterviewMode[]).map((mode) => (
+            <option key={mode} value={mode}>{INTERVIEW_MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          スクリプト問診では質問を順番に読み上げ、回答をそのまま記録します。AI問診でも応答の失敗が続いた場合は自動的に切り替わります。
+        </p>
+      </div>
+
+      {!isGlobal && (
+        <p className="text-sm text-gray-600 mb-3">
+          空欄の項目は共通設定の値（薄字で表示）が使用されます。
+        </p>
+      )}
+
+      {/* 段階 × 項目 */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-600">
+              <th className="py-2 pr-4 font-medium">段階</th>
+              {FIELDS.map(({ key, label }) => (
+                <th key={key} className="py-2 pr-4 font-medium">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {AI_STAGES.map((stage) => (
+              <tr key={stage} className="border-b border-gray-100">
+                <td className="py-2 pr-4 text-gray-800 whitespace-nowrap">{AI_STAGE_LABELS[stage]}</td>
+                {FIELDS.map(({ key, min, max, step }) => (
+                  <td key={key} className="py-2 pr-4">
+                    <input
+                      type={key === 'model' ? 'text' : 'number'}
+                      value={draft[stage][key]}
+                      onChange={(e) => updateField(stage, key, e.target.value)}
+                      min={min}
+                      max={max}
+                      step={step}
+                      placeholder={isGlobal ? String(DEFAULT_AI_SETTINGS[stage][key]) : String(globalSettings[stage][key])}
+                      className={`${key === 'model' ? 'w-40' : 'w-28'} px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]`}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6 flex gap-3 justify-end">
+        <button
+          onClick={handleReset}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          {isGlobal ? 'デフォルト値を読み込む' : '上書きをすべて解除'}
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-6 py-2 gradient-primary text-white rounded-lg hover:opacity-90 transition-all"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+}
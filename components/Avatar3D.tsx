@@ -7,15 +7,18 @@ import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { VRMLoaderPlugin, VRM } from '@pixiv/three-vrm';
 import { EmotionType } from '@/types';
+import { AVATARS, DEFAULT_AVATAR_ID } from '@/lib/avatars';
+import { CLOSED_MOUTH, getLipSyncFrame, VISEMES } from '@/lib/lipSync';
 
 interface VRMAvatarModelProps {
+  modelUrl: string;
   emotion: EmotionType;
   isSpeaking: boolean;
   onLoadComplete?: () => void;
   onLoadProgress?: (progress: number) => void;
 }
 
-function VRMAvatarModel({ emotion, isSpeaking, onLoadComplete, onLoadProgress }: VRMAvatarModelProps) {
+function VRMAvatarModel({ modelUrl, emotion, isSpeaking, onLoadComplete, onLoadProgress }: VRMAvatarModelProps) {
   const groupRef = useRef<THREE.Group>(null);
   const vrmRef = useRef<VRM | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
@@ -26,7 +29,7 @@ function VRMAvatarModel({ emotion, isSpeaking, onLoadComplete, onLoadProgress }:
     loader.register((parser) => new VRMLoaderPlugin(parser));
 
     loader.load(
-      '/BOC.vrm',
+      modelUrl,
       (gltf) => {
         const vrm = gltf.userData.vrm as VRM;
         if (vrm) {
@@ -113,7 +116,7 @@ function VRMAvatarModel({ emotion, isSpeaking, onLoadComplete, onLoadProgress }:
         vrmRef.current = null;
       }
     };
-  }, []);
+  }, [modelUrl]);
 
   // 感情に応じた表情設定（文字列を使用 - 参考記事の方法）
   const setEmotion = useCallback((vrm: VRM, emotionType: EmotionType) => {
@@ -185,23 +188,12 @@ function VRMAvatarModel({ emotion, isSpeaking, onLoadComplete, onLoadProgress }:
     }
 
     // ===== 口パクアニメーション（発話中） =====
-    if (isSpeaking) {
-      // 複数の母音形状を組み合わせてリアルな口パク
-      const mouthSpeed = 12;
-      const aaValue = Math.max(0, Math.sin(time * mouthSpeed) * 0.6);
-      const iiValue = Math.max(0, Math.sin(time * mouthSpeed + 1) * 0.3);
-      const ouValue = Math.max(0, Math.sin(time * mouthSpeed + 2) * 0.4);
-
-      vrm.expressionManager.setValue('aa', aaValue);
-      vrm.expressionManager.setValue('ih', iiValue);
-      vrm.expressionManager.setValue('ou', ouValue);
-    } else {
-      // 話していない時は口を閉じる
-      vrm.expressionManager.setValue('aa', 0);
-      vrm.expressionManager.setValue('ih', 0);
-      vrm.expressionManager.setValue('ou', 0);
-      vrm.expressionManager.setValue('ee', 0);
-      vrm.expressionManager.setValue('oh', 0);
+    // 再生中の音声（または読み上げる文）から推定した母音の形に滑らかに近づける
+    const target = isSpeaking ? getLipSyncFrame() : CLOSED_MOUTH;
+    const mouthFollow = Math.min(1, delta * 18);
+    for (const viseme of VISEMES) {
+      const current = vrm.expressionManager.getValue(viseme) ?? 0;
+      vrm.expressionManager.setValue(viseme, current + (target[viseme] - current) * mouthFollow);
     }
 
     // ===== VRMの更新 =====
@@ -260,11 +252,12 @@ function VRMAvatarModel({ emotion, isSpeaking, onLoadComplete, onLoadProgress }:
 }
 
 interface Avatar3DProps {
+  avatarId?: string;
   emotion?: EmotionType;
   isSpeaking?: boolean;
 }
 
-export default function Avatar3D({ emotion = 'neutral', isSpeaking = false }: Avatar3DProps) {
+export default function Avatar3D({ avatarId = DEFAULT_AVATAR_ID, emotion = 'neutral', isSpeaking = false }: Avatar3DProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [loadProgress, setLoadProgress] = useState(0);
 
@@ -310,6 +303,7 @@ export default function Avatar3D({ emotion = 'neutral', isSpeaking = false }: Av
         style={{ width: '100%', height: '100%' }}
       >
         <VRMAvatarModel
+          modelUrl={(AVATARS[avatarId] || AVATARS[DEFAULT_AVATAR_ID]).modelUrl}
           emotion={emotion}
           isSpeaking={isSpeaking}
           onLoadComplete={() => setIsLoading(false)}
@@ -2,6 +2,8 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { ChatMessage, InputMode, STTStatus } from '@/types';
+import { parseRuby } from '@/lib/easyJapanese';
+import VoiceConfirmation from '@/components/VoiceConfirmation';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
@@ -9,29 +11,65 @@ interface ChatInterfaceProps {
   sttStatus: STTStatus;
   isTTSSpeaking: boolean;
   isWaitingForAI: boolean;
+  isPaused?: boolean; // レッドフラグ検出により一時停止中
+  easyMode?: boolean; // やさしい日本語モード（大きな文字・ふりがな）
   onSendMessage: (message: string) => void;
   onModeChange: (mode: InputMode) => void;
   onStartVoice: () => void;
   onStopVoice: () => void;
+  onResume?: () => void; // スタッフ確認後に問診を再開
+  bargeIn?: boolean; // 割り込み発話モード（読み上げ中も話しかけられる）
+  onBargeInChange?: (enabled: boolean) => void;
+  bargeInAvailable?: boolean; // 話している途中の認識結果が得られる（録音して文字起こしする場合は割り込めない）
+  voiceSupported?: boolean; // 音声入力を利用できるブラウザか
+  handsFree?: boolean; // ハンズフリーモード（自動で聞き取りを再開）
+  onHandsFreeChange?: (enabled: boolean) => void;
+  interimTranscript?: string; // 認識途中の文（話している間に表示）
+  confirmVoiceInput?: boolean; // 音声入力を送信前に確認する
+  onConfirmVoiceInputChange?: (enabled: boolean) => void;
+  pendingVoiceText?: string | null; // 確認待ちの認識結果
+  onConfirmVoice?: (text: string) => void;
+  onRetryVoice?: () => void;
 }
 
+// 音声入力の確認を自動で送信するまでの秒数（ハンズフリーのみ、画面に触れずに答えられるように）
+const VOICE_CONFIRM_AUTO_SEND_SECONDS = 8;
+
 export default function ChatInterface({
   messages,
   inputMode,
   sttStatus,
   isTTSSpeaking,
   isWaitingForAI,
+  isPaused = false,
+  easyMode = false,
   onSendMessage,
   onModeChange,
   onStartVoice,
   onStopVoice,
+  onResume,
+  bargeIn = false,
+  onBargeInChange,
+  bargeInAvailable = true,
+  voiceSupported = true,
+  handsFree = false,
+  onHandsFreeChange,
+  interimTranscript = '',
+  confirmVoiceInput = false,
+  onConfirmVoiceInputChange,
+  pendingVoiceText = null,
+  onConfirmVoice,
+  onRetryVoice,
 }: ChatInterfaceProps) {
   const [inputText, setInputText] = useState('');
   const [isComposing, setIsComposing] = useState(false);
+  const [showFurigana, setShowFurigana] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const previousMessagesLengthRef = useRef(0);
+  // 割り込み発話モードでは、アバターの発話中も音声入力を受け付ける
+  const canInterrupt = bargeIn && bargeInAvailable && inputMode === 'voice' && isTTSSpeaking;
 
   // メッセージが追加されたら自動スクロール
   useEffect(() => {
@@ -66,6 +104,27 @@ export default function ChatInterface({
     return () => clearTimeout(timeoutId);
   }, [messages]);
 
+  // ストリーミング中は本文が伸びるたびに最下部へ追従
+  const lastMessage = messages[messages.length - 1];
+  const streamingContent = lastMessage?.isStreaming ? lastMessage.content : null;
+  useEffect(() => {
+    if (streamingContent === null) return;
+    const container = messagesContainerRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [streamingContent]);
+
+  // 認識途中の文（発話中のみ表示し、伸びるたびに最下部へ追従）
+  const liveTranscript = sttStatus !== 'idle' ? interimTranscript : '';
+  useEffect(() => {
+    if (!liveTranscript) return;
+    const container = messagesContainerRef.current;
+    if (container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [liveTranscript]);
+
   const handleSend = () => {
     if (inputText.trim() && !isComposing) {
       onSendMessage(inputText.trim());
@@ -124,8 +183,20 @@ export default function ChatInterface({
     <div className="flex flex-col h-full min-h-0 bg-white rounded-2xl shadow-yuyama-lg overflow-hidden">
       {/* ヘッダー */}
       <div className="px-6 py-4 gradient-primary text-white">
-        <h2 className="text-xl font-bold">問診チャット</h2>
-        
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">問診チャット</h2>
+          {easyMode && (
+            <button
+              onClick={() => setShowFurigana(!showFurigana)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-all ${
+                showFurigana ? 'bg-white text-[#0066CC]' : 'bg-white/20 text-white hover:bg-white/30'
+              }`}
+            >
+              ふりがな {showFurigana ? 'あり' : 'なし'}
+            </button>
+          )}
+        </div>
+
         {/* モード切替 */}
         <div className="mt-3 flex gap-2">
           <button
@@ -155,7 +226,12 @@ export default function ChatInterface({
       <div className="px-6 py-3 bg-gray-50 border-b min-h-[60px] flex items-center">
         {(sttStatus !== 'idle' || isTTSSpeaking) && (
           <>
-            {isTTSSpeaking ? (
+            {canInterrupt ? (
+              <div className="flex items-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 rounded-lg">
+                <span className="text-lg">🎙</span>
+                <span className="text-sm font-medium">アバター発話中です（話しかけると読み上げを止めます）</span>
+              </div>
+            ) : isTTSSpeaking ? (
               <div className="flex items-center gap-2 px-3 py-2 bg-gray-200 text-gray-700 rounded-lg">
                 <span className="text-lg">🔇</span>
                 <span className="text-sm font-medium">アバター発話中です</span>
@@ -185,19 +261,63 @@ export default function ChatInterface({
                   : 'bg-gray-100 text-gray-800'
               }`}
             >
-              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              <p className={`${easyMode ? 'text-xl leading-loose' : 'text-sm'} whitespace-pre-wrap`}>
+                {easyMode && showFurigana && message.furigana && !message.isStreaming
+                  ? parseRuby(message.furigana).map((segment, i) =>
+                      segment.ruby ? (
+                        <ruby key={i}>
+                          {segment.text}
+                          <rt className="text-xs">{segment.ruby}</rt>
+                        </ruby>
+                      ) : (
+                        <span key={i}>{segment.text}</span>
+                      )
+                    )
+                  : message.content}
+                {message.isStreaming && (
+                  <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-500 animate-pulse" />
+                )}
+              </p>
               <span className="text-xs opacity-70 mt-1 block">
                 {new Date(message.timestamp).toLocaleTimeString('ja-JP')}
+                {message.truncated && '・読み上げを途中で止めました'}
               </span>
             </div>
           </div>
         ))}
+        {liveTranscript && (
+          <div className="flex justify-end">
+            <div className="max-w-[70%] px-4 py-3 rounded-2xl bg-blue-50 text-[#0066CC] border border-dashed border-blue-300">
+              <p className={`${easyMode ? 'text-xl leading-loose' : 'text-sm'} whitespace-pre-wrap`}>
+                {liveTranscript}
+                <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-blue-300 animate-pulse" />
+              </p>
+              <span className="text-xs opacity-70 mt-1 block">聞き取り中…</span>
+            </div>
+          </div>
+        )}
         <div ref={messagesEndRef} />
       </div>
 
       {/* 入力エリア */}
       <div className="px-6 py-4 bg-gray-50 border-t">
-        {inputMode === 'text' ? (
+        {isPaused ? (
+          // レッドフラグ検出: スタッフが対応するまで一時停止
+          <div className="flex flex-col md:flex-row items-center justify-between gap-3 px-4 py-3 bg-red-50 border border-red-300 rounded-lg">
+            <p className="text-sm font-medium text-red-700">
+              ⚠ 問診を一時停止しています。お近くのスタッフにお声がけください。
+            </p>
+            {onResume && (
+              <button
+                onClick={onResume}
+                disabled={isTTSSpeaking}
+                className="px-4 py-2 text-sm border border-red-400 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+              >
+                スタッフ確認済み・再開する
+              </button>
+            )}
+          </div>
+        ) : inputMode === 'text' ? (
           <div className="flex gap-2">
             <textarea
               ref={inputRef}
@@ -222,14 +342,34 @@ export default function ChatInterface({
               送信
             </button>
           </div>
+        ) : pendingVoiceText !== null && onConfirmVoice && onRetryVoice ? (
+          <VoiceConfirmation
+            key={pendingVoiceText}
+            text={pendingVoiceText}
+            autoSendSeconds={handsFree ? VOICE_CONFIRM_AUTO_SEND_SECONDS : null}
+            onConfirm={onConfirmVoice}
+            onRetry={onRetryVoice}
+          />
+        ) : !voiceSupported ? (
+          <div className="text-center">
+            <p className="text-sm text-gray-600 mb-3">
+              このブラウザでは音声入力を利用できません。テキスト入力をご利用ください。
+            </p>
+            <button
+              onClick={() => onModeChange('text')}
+              className="px-6 py-3 gradient-primary text-white rounded-lg font-medium hover:opacity-90 transition-all"
+            >
+              テキスト入力に切り替える
+            </button>
+          </div>
         ) : (
           <div className="text-center">
             <p className="text-sm text-gray-600 mb-3">
-              マイクボタンを押して話してください
+              {handsFree ? 'アバターの質問のあとに、そのまま話してください' : 'マイクボタンを押して話してください'}
             </p>
             <button
               onClick={sttStatus === 'idle' ? onStartVoice : onStopVoice}
-              disabled={isTTSSpeaking || isWaitingForAI}
+              disabled={sttStatus === 'processing' || (!canInterrupt && (isTTSSpeaking || isWaitingForAI))}
               className={`px-8 py-4 rounded-full font-medium transition-all ${
                 sttStatus === 'listening'
                   ? 'bg-red-500 text-white hover:bg-red-600'
@@ -238,6 +378,39 @@ export default function ChatInterface({
             >
               {sttStatus === 'listening' ? '🎙 停止' : '🎙 音声入力開始'}
             </button>
+            {onHandsFreeChange && (
+              <label className="mt-3 flex items-center justify-center gap-2 text-sm text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={handsFree}
+                  onChange={(e) => onHandsFreeChange(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                ハンズフリー（ボタンを押さずに続けて答える）
+              </label>
+            )}
+            {onBargeInChange && bargeInAvailable && (
+              <label className="mt-2 flex items-center justify-center gap-2 text-sm text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={bargeIn}
+                  onChange={(e) => onBargeInChange(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                アバターの話の途中でも答える
+              </label>
+            )}
+            {onConfirmVoiceInputChange && (
+              <label className="mt-2 flex items-center justify-center gap-2 text-sm text-gray-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={confirmVoiceInput}
+                  onChange={(e) => onConfirmVoiceInputChange(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                送信前に聞き取った内容を確認する
+              </label>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import { Questionnaire } from '@/types';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  DEFAULT_SCOPE,
+  PROMPT_PLACEHOLDERS,
+  PROMPT_STAGES,
+  PROMPT_STAGE_LABELS,
+  PromptStage,
+  PromptTemplateVersion,
+  getPromptHistory,
+  resolvePrompt,
+  savePromptVersion,
+} from '@/lib/prompts';
+
+interface PromptTemplateEditorProps {
+  questionnaires: Questionnaire[];
+}
+
+export default function PromptTemplateEditor({ questionnaires }: PromptTemplateEditorProps) {
+  const [scope, setScope] = useState(DEFAULT_SCOPE);
+  const [stage, setStage] = useState<PromptStage>('respond');
+  const [history, setHistory] = useState<PromptTemplateVersion[]>(() => getPromptHistory(DEFAULT_SCOPE, 'respond'));
+  const [draft, setDraft] = useState(() => resolvePrompt(DEFAULT_SCOPE, 'respond').body);
+  const [note, setNote] = useState('');
+
+  // 現在有効なテンプレート（文診表固有 → 共通 → 組み込み）
+  const active = resolvePrompt(scope, stage);
+
+  // スコープ・段階を切り替えたら履歴と編集内容を読み込み直す
+  function loadSelection(nextScope: string, nextStage: PromptStage) {
+    setScope(nextScope);
+    setStage(nextStage);
+    setHistory(getPromptHistory(nextScope, nextStage));
+    setDraft(resolvePrompt(nextScope, nextStage).body);
+    setNote('');
+  }
+
+  function handleSave() {
+    if (!draft.trim()) return;
+    const saved = savePromptVersion(scope, stage, draft, note.trim() || undefined);
+    setHistory(getPromptHistory(scope, stage));
+    setNote('');
+    alert(`バージョン ${saved.version} として保存しました`);
+  }
+
+  function handleRestore(version: PromptTemplateVersion) {
+    if (!confirm(`バージョン ${version.version} を復元しますか？（新しいバージョンとして保存されます）`)) return;
+    savePromptVersion(scope, stage, version.body, `v${version.version} を復元`);
+    setHistory(getPromptHistory(scope, stage));
+    setDraft(version.body);
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-yuyama p-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-6">プロンプトテンプレート</h2>
+
+      {/* 対象の選択 */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">適用範囲</label>
+          <select
+            value={scope}
+            onChange={(e) => loadSelection(e.target.value, stage)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+          >
+            <option value={DEFAULT_SCOPE}>全文診表共通</option>
+            {questionnaires.map((q) => (
+              <option key={q.id} value={q.id}>{q.title}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">段階</label>
+          <select
+            value={stage}
+            onChange={(e) => loadSelection(scope, e.target.value as PromptStage)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+          >
+            {PROMPT_STAGES.map((s) => (
+              <option key={s} value={s}>{PROMPT_STAGE_LABELS[s]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-2">
+        現在有効なバージョン: <span className="font-mono text-[#0066CC]">{active.versionId}</span>
+      </p>
+
+      {/* プレースホルダー */}
+      <div className="mb-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
+        <p className="text-sm font-medium text-blue-800 mb-1">使用できるプレースホルダー</p>
+        <ul className="text-xs text-blue-700 space-y-0.5">
+          {PROMPT_PLACEHOLDERS[stage].map((p) => (
+            <li key={p.key}>
+              <code className="font-mono">{`{{${p.key}}}`}</code> … {p.description}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* 編集 */}
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        className="w-full h-96 px-4 py-3 font-mono text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+      />
+      <div className="mt-3 flex flex-col md:flex-row gap-3">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="変更メモ（任意）"
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+        />
+        <button
+          onClick={() => setDraft(DEFAULT_PROMPT_TEMPLATES[stage])}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          組み込みの内容を読み込む
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!draft.trim()}
+          className="px-6 py-2 gradient-primary text-white rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          新しいバージョンとして保存
+        </button>
+      </div>
+
+      {/* バージョン履歴 */}
+      <div className="mt-8">
+        <h3 className="text-lg font-bold text-gray-800 mb-3">バージョン履歴 ({history.length}件)</h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            この範囲で保存されたバージョンはありません（{scope === DEFAULT_SCOPE ? '組み込み' : '共通または組み込み'}のテンプレートが使用されます）
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {history.map((version, index) => (
+              <div
+                key={version.version}
+                className="flex items-center justify-between border border-gray-200 rounded-lg px-4 py-2"
+              >
+                <div>
+                  <p className="text-sm font-medium text-gray-800">
+                    v{version.version}
+                    {index === 0 && (
+                      <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-700 rounded">有効</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {new Date(version.createdAt).toLocaleString('ja-JP')}
+                    {version.note && ` ・ ${version.note}`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setDraft(version.body)}
+                    className="px-3 py-1 text-sm text-[#0066CC] border border-[#0066CC] rounded hover:bg-blue-50 transition-colors"
+                  >
+                    表示
+                  </button>
+                  {index > 0 && (
+                    <button
+                      onClick={() => handleRestore(version)}
+                      className="px-3 py-1 text-sm text-[#0066CC] border border-[#0066CC] rounded hover:bg-blue-50 transition-colors"
+                    >
+                      復元
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import { Questionnaire } from '@/types';
+import {
+  BUILTIN_RED_FLAG_CONFIGS,
+  DEFAULT_SCOPE,
+  RedFlagConfig,
+  RedFlagRule,
+  getRedFlagConfig,
+  matchRedFlagRules,
+  saveRedFlagConfig,
+  validateRedFlagPattern,
+} from '@/lib/redFlags';
+
+interface RedFlagRuleEditorProps {
+  questionnaires: Questionnaire[];
+}
+
+export default function RedFlagRuleEditor({ questionnaires }: RedFlagRuleEditorProps) {
+  const [scope, setScope] = useState(DEFAULT_SCOPE);
+  const [config, setConfig] = useState<RedFlagConfig>(() => getRedFlagConfig(DEFAULT_SCOPE));
+  const [testInput, setTestInput] = useState('');
+
+  const isDefaultScope = scope === DEFAULT_SCOPE;
+
+  // ルールのみで判定したテスト結果（LLM分類器は含まない）
+  const testResult = testInput.trim()
+    ? matchRedFlagRules(testInput, config.rules.filter(rule => rule.enabled))
+    : null;
+
+  function loadScope(nextScope: string) {
+    setScope(nextScope);
+    setConfig(getRedFlagConfig(nextScope));
+  }
+
+  function updateRule(index: number, update: Partial<RedFlagRule>) {
+    setConfig(prev => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...update } : rule)),
+    }));
+  }
+
+  function handleAddRule() {
+    setConfig(prev => ({
+      ...prev,
+      rules: [
+        ...prev.rules,
+        { id: `rule-${Date.now()}`, label: '', pattern: '', isRegex: false, enabled: true },
+      ],
+    }));
+  }
+
+  function handleDeleteRule(index: number) {
+    setConfig(prev => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  }
+
+  function handleSave() {
+    for (const rule of config.rules) {
+      if (!rule.label.trim()) {
+        alert('ラベルが空のルールがあります');
+        return;
+      }
+      const error = validateRedFlagPattern(rule);
+      if (error) {
+        alert(`「${rule.label}」: ${error}`);
+        return;
+      }
+    }
+
+    saveRedFlagConfig(scope, config);
+    alert('レッドフラグ設定を保存しました（次のセッションから適用されます）');
+  }
+
+  function handleLoadBuiltin() {
+    setConfig(BUILTIN_RED_FLAG_CONFIGS[scope] || { rules: [], useClassifier: false, escalationMessage: '' });
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-yuyama p-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-6">レッドフラグ検出</h2>
+
+      {/* 対象の選択 */}
+      <div className="mb-4 max-w-md">
+        <label className="block text-sm font-medium text-gray-700 mb-1">適用範囲</label>
+        <select
+          value={scope}
+          onChange={(e) => loadScope(e.target.value)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+        >
+          <option value={DEFAULT_SCOPE}>全文診表共通</option>
+          {questionnaires.map((q) => (
+            <option key={q.id} value={q.id}>{q.title}</option>
+          ))}
+        </select>
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        {isDefaultScope
+          ? '共通ルールはすべての文診表に適用されます。'
+          : '共通ルールに加えて、この文診表のルールが適用されます。'}
+        キーワードはカンマ区切りで、いずれかを含む発言に一致します。
+      </p>
+
+      {/* ルール一覧 */}
+      <div className="space-y-3 mb-4">
+        {config.rules.length === 0 && (
+          <p className="text-sm text-gray-500">ルールはありません</p>
+        )}
+        {config.rules.map((rule, index) => (
+          <div key={rule.id} className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+            <div className="flex flex-col md:flex-row gap-3">
+              <input
+                type="text"
+                value={rule.label}
+                onChange={(e) => updateRule(index, { label: e.target.value })}
+                placeholder="ラベル（例: 胸痛）"
+                className="md:w-40 px-3 py-2 border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+              />
+              <input
+                type="text"
+                value={rule.pattern}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                placeholder={rule.isRegex ? '正規表現' : 'キーワード（カンマ区切り）'}
+                className="flex-1 px-3 py-2 font-mono text-sm border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+              />
+            </div>
+            <div className="mt-2 flex items-center gap-4 text-sm text-gray-700">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={rule.isRegex}
+                  onChange={(e) => updateRule(index, { isRegex: e.target.checked })}
+                />
+                正規表現
+              </label>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                />
+                有効
+              </label>
+              <button
+                onClick={() => handleDeleteRule(index)}
+                className="ml-auto text-red-500 hover:text-red-700"
+              >
+                削除
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={handleAddRule}
+        className="px-4 py-2 bg-[#0066CC] text-white rounded-lg hover:bg-[#0d4a87] transition-colors"
+      >
+        + ルールを追加
+      </button>
+
+      {/* LLM分類器・案内文 */}
+      <div className="mt-6 space-y-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={config.useClassifier}
+            onChange={(e) => setConfig(prev => ({ ...prev, useClassifier: e.target.checked }))}
+          />
+          ルールに一致しない発言もLLM分類器で判定する（応答がわずかに遅くなります）
+        </label>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">検出時の案内（アバターが読み上げます）</label>
+          <textarea
+            value={config.escalationMessage}
+            onChange={(e) => setConfig(prev => ({ ...prev, escalationMessage: e.target.value }))}
+            rows={3}
+            placeholder={isDefaultScope ? '空欄の場合は組み込みの案内を使用' : '空欄の場合は共通の案内を使用'}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+          />
+        </div>
+      </div>
+
+      {/* テスト */}
+      <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+        <label className="block text-sm font-medium text-blue-800 mb-1">テスト（この範囲のルールのみ）</label>
+        <input
+          type="text"
+          value={testInput}
+          onChange={(e) => setTestInput(e.target.value)}
+          placeholder="患者の発言を入力"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+        />
+        {testInput.trim() && (
+          <p className={`mt-2 text-sm ${testResult ? 'text-red-700 font-medium' : 'text-gray-600'}`}>
+            {testResult ? `⚠ ${testResult.label}（一致: ${testResult.matchedText}）` : '一致するルールはありません'}
+          </p>
+        )}
+      </div>
+
+      <div className="mt-6 flex gap-3 justify-end">
+        <button
+          onClick={handleLoadBuiltin}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          組み込みの内容を読み込む
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-6 py-2 gradient-primary text-white rounded-lg hover:opacity-90 transition-all"
+        >
+          保存
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { Session, Questionnaire, FormattedAnswer } from '@/types';
+import { Session, Questionnaire, FormattedAnswer, SymptomRecord } from '@/types';
+import SymptomTable from '@/components/SymptomTable';
+import { formatNormalizedValue, normalizeAnswer } from '@/lib/answerNormalization';
 
 interface SummaryScreenProps {
   session: Session;
@@ -9,6 +11,7 @@ interface SummaryScreenProps {
   onEdit: (questionIndex: number) => void;
   onConfirm: () => void;
   onUpdateAnswer?: (index: number, newAnswer: string) => void;
+  onUpdateSymptoms?: (index: number, symptoms: SymptomRecord[]) => void;
 }
 
 // 신뢰도에 따른 배지 색상
@@ -29,6 +32,7 @@ export default function SummaryScreen({
   onEdit,
   onConfirm,
   onUpdateAnswer,
+  onUpdateSymptoms,
 }: SummaryScreenProps) {
   const [countdown, setCountdown] = useState(30);
   const [isPaused, setIsPaused] = useState(false);
@@ -80,10 +84,13 @@ export default function SummaryScreen({
   const handleSaveEdit = (index: number) => {
     if (hasFormattedAnswers) {
       const updatedAnswers = [...localAnswers];
+      const question = questionnaire.questions.find(q => q.id === updatedAnswers[index].questionId);
       updatedAnswers[index] = {
         ...updatedAnswers[index],
         extractedAnswer: editValue,
         confidence: 'high', // 수동 수정은 높은 신뢰도
+        // 修正した回答を選択肢・スケールに当てはめ直す
+        normalizedValue: question ? normalizeAnswer(question, editValue) ?? undefined : undefined,
       };
       setLocalAnswers(updatedAnswers);
 
@@ -99,6 +106,15 @@ export default function SummaryScreen({
     setCountdown(30);
   };
 
+  // 症状の表を保存
+  const handleSaveSymptoms = (index: number, symptoms: SymptomRecord[]) => {
+    const updatedAnswers = [...localAnswers];
+    updatedAnswers[index] = { ...updatedAnswers[index], symptoms };
+    setLocalAnswers(updatedAnswers);
+    onUpdateSymptoms?.(index, symptoms);
+    setCountdown(30);
+  };
+
   // 편집 취소
   const handleCancelEdit = () => {
     setEditingIndex(null);
@@ -220,8 +236,22 @@ export default function SummaryScreen({
                               </div>
                             ))}
                           </div>
+                          {answer.normalizedValue !== undefined && (
+                            <p className="mt-2 text-xs text-gray-500">
+                              記録値: <span className="font-medium text-gray-700">{formatNormalizedValue(answer.normalizedValue)}</span>
+                            </p>
+                          )}
                         </div>
                       )}
+
+                      {/* 症状の構造化記録 */}
+                      {answer.symptoms && answer.symptoms.length > 0 && (
+                        <SymptomTable
+                          symptoms={answer.symptoms}
+                          onChange={(symptoms) => handleSaveSymptoms(index, symptoms)}
+                          onEditingChange={setIsPaused}
+                        />
+                      )}
                     </div>
                     {editingIndex !== index && (
                       <button
@@ -251,6 +281,9 @@ export default function SummaryScreen({
                       </p>
                       <div className="bg-blue-50 rounded p-3">
                         <p className="text-gray-800">{answer.answer}</p>
+                        {answer.evidence && answer.evidence !== answer.answer && (
+                          <p className="text-xs text-gray-500 mt-1">発話: 「{answer.evidence}」</p>
+                        )}
                       </div>
                     </div>
                     <button
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { SymptomRecord } from '@/types';
+import { SYMPTOM_FIELD_LABELS, getMissingElements } from '@/lib/symptoms';
+
+interface SymptomTableProps {
+  symptoms: SymptomRecord[];
+  onChange?: (symptoms: SymptomRecord[]) => void; // 指定時のみ編集可能
+  onEditingChange?: (isEditing: boolean) => void;
+}
+
+const COLUMNS: (keyof SymptomRecord)[] = ['name', 'onset', 'location', 'quality', 'severity', 'frequency'];
+
+// 入力欄の文字列を記録に変換（空欄は未確認）
+function toRecord(row: Record<keyof SymptomRecord, string>): SymptomRecord {
+  const severity = row.severity.trim() === '' ? undefined : Number(row.severity);
+  return {
+    name: row.name.trim(),
+    onset: row.onset.trim() || undefined,
+    location: row.location.trim() || undefined,
+    quality: row.quality.trim() || undefined,
+    severity: severity !== undefined && Number.isFinite(severity)
+      ? Math.min(10, Math.max(0, Math.round(severity)))
+      : undefined,
+    frequency: row.frequency.trim() || undefined,
+  };
+}
+
+function toRow(record: SymptomRecord): Record<keyof SymptomRecord, string> {
+  return {
+    name: record.name,
+    onset: record.onset || '',
+    location: record.location || '',
+    quality: record.quality || '',
+    severity: record.severity !== undefined ? String(record.severity) : '',
+    frequency: record.frequency || '',
+  };
+}
+
+// 症状の構造化記録の表（スタッフが編集可能）
+export default function SymptomTable({ symptoms, onChange, onEditingChange }: SymptomTableProps) {
+  const [rows, setRows] = useState<Record<keyof SymptomRecord, string>[] | null>(null);
+  const isEditing = rows !== null;
+
+  function setEditing(nextRows: Record<keyof SymptomRecord, string>[] | null) {
+    setRows(nextRows);
+    onEditingChange?.(nextRows !== null);
+  }
+
+  function updateCell(index: number, key: keyof SymptomRecord, value: string) {
+    setRows(prev => prev && prev.map((row, i) => (i === index ? { ...row, [key]: value } : row)));
+  }
+
+  function handleSave() {
+    if (!rows) return;
+    onChange?.(rows.filter(row => row.name.trim()).map(toRecord));
+    setEditing(null);
+  }
+
+  return (
+    <div className="mt-3">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border border-gray-200 rounded">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              {COLUMNS.map((key) => (
+                <th key={key} className="px-2 py-1 text-left font-medium whitespace-nowrap">
+                  {SYMPTOM_FIELD_LABELS[key]}{key === 'severity' && '(0-10)'}
+                </th>
+              ))}
+              {isEditing && <th className="px-2 py-1" />}
+            </tr>
+          </thead>
+          <tbody>
+            {isEditing
+              ? rows.map((row, index) => (
+                  <tr key={index} className="border-t border-gray-200">
+                    {COLUMNS.map((key) => (
+                      <td key={key} className="px-1 py-1">
+                        <input
+                          type={key === 'severity' ? 'number' : 'text'}
+                          min={key === 'severity' ? 0 : undefined}
+                          max={key === 'severity' ? 10 : undefined}
+                          value={row[key]}
+                          onChange={(e) => updateCell(index, key, e.target.value)}
+                          className="w-full min-w-16 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-[#0066CC]"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-1 py-1">
+                      <button
+                        onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                        className="text-red-500 hover:text-red-700 text-xs whitespace-nowrap"
+                      >
+                        削除
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              : symptoms.map((record, index) => {
+                  const missing: (keyof SymptomRecord)[] = getMissingElements(record);
+                  return (
+                    <tr key={index} className="border-t border-gray-200">
+                      {COLUMNS.map((key) => (
+                        <td
+                          key={key}
+                          className={`px-2 py-1 ${key === 'name' ? 'font-medium text-gray-800' : 'text-gray-700'}`}
+                        >
+                          {record[key] !== undefined && record[key] !== '' ? (
+                            key === 'severity' ? `${record.severity}/10` : record[key]
+                          ) : (
+                            <span className={missing.includes(key) ? 'text-orange-500' : 'text-gray-400'}>
+                              {missing.includes(key) ? '未確認' : '-'}
+                            </span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+          </tbody>
+        </table>
+      </div>
+
+      {onChange && (
+        <div className="mt-2 flex gap-2">
+          {isEditing ? (
+            <>
+              <button
+                onClick={() => setRows([...rows, toRow({ name: '' })])}
+                className="px-3 py-1 text-xs border border-gray-300 text-gray-700 rounded hover:bg-gray-100 transition-colors"
+              >
+                + 症状を追加
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-3 py-1 text-xs bg-[#0066CC] text-white rounded hover:bg-[#0055AA] transition-colors"
+              >
+                保存
+              </button>
+              <button
+                onClick={() => setEditing(null)}
+                className="px-3 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition-colors"
+              >
+                キャンセル
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setEditing(symptoms.map(toRow))}
+              className="px-3 py-1 text-xs text-[#0066CC] border border-[#0066CC] rounded hover:bg-blue-50 transition-colors"
+            >
+              症状を編集
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
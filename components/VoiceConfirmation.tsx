@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface VoiceConfirmationProps {
+  text: string; // 認識結果
+  autoSendSeconds?: number | null; // 操作がない場合に自動で送信するまでの秒数（画面に触れられない方のため、省略時は自動送信しない）
+  onConfirm: (text: string) => void;
+  onRetry: () => void;
+}
+
+// 音声入力の確認: 認識結果を送信前に確認・修正する
+export default function VoiceConfirmation({
+  text,
+  autoSendSeconds = null,
+  onConfirm,
+  onRetry,
+}: VoiceConfirmationProps) {
+  const [draft, setDraft] = useState(text);
+  // 自動送信までの残り秒数（編集を始めたら null にして自動送信しない）
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(autoSendSeconds);
+  // コールバックはrefで管理し、親の再描画でカウントダウンがやり直しにならないようにする
+  const onConfirmRef = useRef(onConfirm);
+
+  useEffect(() => {
+    onConfirmRef.current = onConfirm;
+  }, [onConfirm]);
+
+  useEffect(() => {
+    if (secondsLeft === null) return;
+
+    const timer = setTimeout(() => {
+      if (secondsLeft <= 1) {
+        onConfirmRef.current(draft);
+      } else {
+        setSecondsLeft(secondsLeft - 1);
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [secondsLeft, draft]);
+
+  return (
+    <div className="text-left">
+      <p className="text-sm font-medium text-gray-700 mb-2">
+        このように聞き取りました。内容を確認してください。
+      </p>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onFocus={() => setSecondsLeft(null)}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-[#0066CC] focus:border-transparent"
+        rows={2}
+      />
+      <div className="mt-3 flex items-center justify-between gap-3">
+        <span className="text-xs text-gray-500">
+          {secondsLeft !== null ? `あと${secondsLeft}秒で送信します` : '修正が終わったら「送信」を押してください'}
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={onRetry}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            言い直す
+          </button>
+          <button
+            onClick={() => onConfirm(draft)}
+            disabled={!draft.trim()}
+            className="px-6 py-2 gradient-primary text-white rounded-lg font-medium hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            送信
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
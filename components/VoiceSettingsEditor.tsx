@@ -0,0 +1,518 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Questionnaire, TTSProviderId } from '@/types';
+import { PrewarmSpeech, prewarmSpeechCache, speakText, stopSpeaking } from '@/lib/openai';
+import { MAX_CACHE_BYTES, SpeechCacheStats, clearSpeechCache, getSpeechCacheStats } from '@/lib/ttsCache';
+import { AVATARS, DEFAULT_AVATAR_ID } from '@/lib/avatars';
+import { DEFAULT_LANGUAGE, INTERVIEW_LANGUAGES, LANGUAGES, joinSentences } from '@/lib/languages';
+import { EASY_JAPANESE_SWITCH_MESSAGE, toEasySpeechVoice } from '@/lib/easyJapanese';
+import { formatGuardReply } from '@/lib/inputGuard';
+import { formatSilenceReprompt } from '@/lib/handsFree';
+import { resolveRedFlagConfig } from '@/lib/redFlags';
+import {
+  OPENAI_VOICES,
+  TTS_PROVIDER_LABELS,
+  TTSSettings,
+  TTSSettingsOverride,
+  getTTSSettingsStore,
+  resolveTTSSettings,
+  saveTTSSettingsStore,
+  toSpeechVoice,
+} from '@/lib/tts';
+import { VADProfileId, VAD_PROFILES, VAD_PROFILE_IDS, getVADProfileId, saveVADProfileId } from '@/lib/vad';
+import {
+  DEFAULT_STT_SETTINGS,
+  STTProviderSetting,
+  STTSettings,
+  STT_PROVIDER_LABELS,
+  getSTTSettings,
+  isRecordingSupported,
+  isWebSpeechSupported,
+  resolveSTTProvider,
+  saveSTTSettings,
+} from '@/lib/stt';
+
+interface VoiceSettingsEditorProps {
+  questionnaires: Questionnaire[];
+}
+
+// 共通設定を表すスコープ（アバターは avatar:ID、文診表は questionnaire:ID）
+const GLOBAL_SCOPE = 'default';
+const AVATAR_PREFIX = 'avatar:';
+const QUESTIONNAIRE_PREFIX = 'questionnaire:';
+
+type SettingKey = keyof TTSSettings;
+
+// 編集中の値（入力欄の文字列、空欄は上書きなし）
+type Draft = Record<SettingKey, string>;
+
+// 数値項目の表示名と入力範囲
+const NUMBER_FIELDS: { key: 'speed' | 'pitch'; label: string; min: number; max: number; step: number }[] = [
+  { key: 'speed', label: '速度', min: 0.25, max: 4, step: 0.05 },
+  { key: 'pitch', label: '声の高さ', min: 0, max: 2, step: 0.1 },
+];
+
+const TEXT_FIELDS: SettingKey[] = ['provider', 'model', 'endpoint', 'voice'];
+
+// 試聴用の文
+const PREVIEW_TEXT = LANGUAGES.ja.welcomeMessage;
+
+// キャッシュのサイズ表示（MB）
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+// 事前作成する音声（AI問診で定型文のまま読み上げる文を、問診と同じ声・速度で）
+// AIの応答は質問文を言い換えるため対象外、スクリプト問診はブラウザの音声合成で読み上げるため対象外
+function collectPrewarmSpeeches(questionnaire: Questionnaire, settings: TTSSettingsOverride): PrewarmSpeech[] {
+  return INTERVIEW_LANGUAGES.flatMap((language) => {
+    const voice = toSpeechVoice(settings, language);
+    const { welcomeMessage, fallbackReply, resumeMessage } = LANGUAGES[language];
+    const messages = [welcomeMessage, fallbackReply, resolveRedFlagConfig(questionnaire.id, language).escalationMessage];
+    // 日本語以外は質問をAIが翻訳して尋ねるため、質問を続けて読み上げる定型文は事前に作れない
+    if (language !== DEFAULT_LANGUAGE) {
+      return messages.map((text) => ({ text, voice }));
+    }
+
+    // 日本語: 質問文を続けて読み上げる定型文（発話がない場合・入力ガード・再開）
+    const questionMessages = questionnaire.questions.flatMap((question) => [
+      formatSilenceReprompt(language, question.text),
+      formatGuardReply(language, question.text),
+      joinSentences(language, resumeMessage, question.text),
+    ]);
+    // やさしい日本語はゆっくり読み上げる（速度が違うと別の音声になるため、質問ごとの定型文までは作らない）
+    const easyVoice = toEasySpeechVoice(voice);
+    return [
+      ...[...messages, ...questionMessages].map((text) => ({ text, voice })),
+      ...[...messages, EASY_JAPANESE_SWITCH_MESSAGE].map((text) => ({ text, voice: easyVoice })),
+    ];
+  });
+}
+
+function toDraft(settings: TTSSettingsOverride): Draft {
+  return {
+    provider: settings.provider || '',
+    model: settings.model || '',
+    endpoint: settings.endpoint || '',
+    voice: settings.voice || '',
+    speed: settings.speed === undefined ? '' : String(settings.speed),
+    pitch: settings.pitch === undefined ? '' : String(settings.pitch),
+  };
+}
+
+// 入力欄の文字列を設定に変換（範囲外の値はエラー）
+function fromDraft(draft: Draft): { settings: TTSSettingsOverride } | { error: string } {
+  const settings: TTSSettingsOverride = {};
+
+  for (const key of TEXT_FIELDS) {
+    const raw = draft[key].trim();
+    if (!raw) continue;
+    if (key === 'provider') {
+      settings.provider = raw as TTSProviderId;
+    } else {
+      settings[key as 'model' | 'endpoint' | 'voice'] = raw;
+    }
+  }
+
+  for (const { key, label, min, max } of NUMBER_FIELDS) {
+    const raw = draft[key].trim();
+    if (!raw) continue;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      return { error: `「${label}」は ${min}〜${max} の数値で入力してください` };
+    }
+    settings[key] = value;
+  }
+
+  return { settings };
+}
+
+// スコープの保存済みの設定と、その上位の設定（空欄の項目に適用される値）
+function loadScopeSettings(scope: string): { own: TTSSettingsOverride; inherited: TTSSettingsOverride } {
+  const { global, avatars, questionnaires } = getTTSSettingsStore();
+
+  if (scope.startsWith(AVATAR_PREFIX)) {
+    return { own: avatars[scope.slice(AVATAR_PREFIX.length)] || {}, inherited: global };
+  }
+  if (scope.startsWith(QUESTIONNAIRE_PREFIX)) {
+    // 文診表の設定は問診で使うアバターの設定に重ねる
+    return {
+      own: questionnaires[scope.slice(QUESTIONNAIRE_PREFIX.length)] || {},
+      inherited: { ...global, ...avatars[DEFAULT_AVATAR_ID] },
+    };
+  }
+  return { own: global, inherited: {} };
+}
+
+export default function VoiceSettingsEditor({ questionnaires }: VoiceSettingsEditorProps) {
+  const [scope, setScope] = useState(GLOBAL_SCOPE);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(loadScopeSettings(GLOBAL_SCOPE).own));
+  const [inherited, setInherited] = useState<TTSSettingsOverride>({});
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [cacheStats, setCacheStats] = useState<SpeechCacheStats | null>(null);
+  // 事前作成の進み具合（作成中のみ）
+  const [prewarmProgress, setPrewarmProgress] = useState<{ done: number; total: number } | null>(null);
+  const [vadProfileId, setVADProfileId] = useState<VADProfileId>(() => getVADProfileId());
+  const [sttDraft, setSTTDraft] = useState<STTSettings>(() => getSTTSettings());
+  // この端末のブラウザの対応状況（音声認識・録音）
+  const [sttSupport] = useState(() => ({
+    webSpeech: isWebSpeechSupported(),
+    recording: isRecordingSupported(),
+  }));
+  const resolvedSTTProvider = resolveSTTProvider(sttDraft.provider);
+
+  useEffect(() => {
+    getSpeechCacheStats().then(setCacheStats);
+  }, []);
+
+  const isGlobal = scope === GLOBAL_SCOPE;
+  // 空欄の項目に適用される値（言語の既定の声 + 上位の設定）
+  const fallback = toSpeechVoice(inherited);
+  const provider = (draft.provider || fallback.provider) as TTSProviderId;
+
+  // スコープを切り替えたら保存済みの設定を読み込み直す
+  function loadScope(nextScope: string) {
+    const { own, inherited } = loadScopeSettings(nextScope);
+    setScope(nextScope);
+    setDraft(toDraft(own));
+    setInherited(inherited);
+  }
+
+  function updateField(key: SettingKey, value: string) {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  }
+
+  function handleSaveSTT() {
+    saveSTTSettings({
+      provider: sttDraft.provider,
+      model: sttDraft.model.trim() || DEFAULT_STT_SETTINGS.model,
+      endpoint: sttDraft.endpoint.trim() || DEFAULT_STT_SETTINGS.endpoint,
+    });
+    alert('音声入力の設定を保存しました（次のセッションから適用されます）');
+  }
+
+  function handleSave() {
+    const result = fromDraft(draft);
+    if ('error' in result) {
+      alert(result.error);
+      return;
+    }
+
+    const store = getTTSSettingsStore();
+    if (isGlobal) {
+      saveTTSSettingsStore({ ...store, global: result.settings });
+    } else {
+      const isAvatar = scope.startsWith(AVATAR_PREFIX);
+      const id = scope.slice((isAvatar ? AVATAR_PREFIX : QUESTIONNAIRE_PREFIX).length);
+      const overrides = { ...(isAvatar ? store.avatars : store.questionnaires) };
+      if (Object.keys(result.settings).length > 0) {
+        overrides[id] = result.settings;
+      } else {
+        delete overrides[id];
+      }
+      saveTTSSettingsStore(isAvatar ? { ...store, avatars: overrides } : { ...store, questionnaires: overrides });
+    }
+    alert('音声設定を保存しました（次のセッションから適用されます）');
+  }
+
+  // 編集中の設定で試聴（保存は不要）
+  async function handlePreview() {
+    if (isPreviewing) {
+      stopSpeaking();
+      return;
+    }
+
+    const result = fromDraft(draft);
+    if ('error' in result) {
+      alert(result.error);
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      await speakText(PREVIEW_TEXT, undefined, undefined, toSpeechVoice({ ...inherited, ...result.settings }));
+    } catch (error) {
+      // 停止した場合もブラウザの音声合成はエラーとして終了する
+      console.error('試聴エラー:', error);
+    } finally {
+      setIsPreviewing(false);
+    }
+  }
+
+  // 保存済みの設定で、問診で定型文のまま読み上げる音声を事前に生成してキャッシュする
+  async function handlePrewarm() {
+    const questionnaire = questionnaires.find((q) => `${QUESTIONNAIRE_PREFIX}${q.id}` === scope);
+    if (!questionnaire || prewarmProgress) return;
+
+    const settings = resolveTTSSettings(questionnaire.id, DEFAULT_AVATAR_ID);
+    if (toSpeechVoice(settings).provider === 'browser') {
+      alert('ブラウザの音声合成は音声データを生成しないため、キャッシュの対象外です');
+      return;
+    }
+
+    const speeches = collectPrewarmSpeeches(questionnaire, settings);
+    setPrewarmProgress({ done: 0, total: speeches.length });
+    const failed = await prewarmSpeechCache(speeches, (done, total) => setPrewarmProgress({ done, total }));
+    setPrewarmProgress(null);
+    setCacheStats(await getSpeechCacheStats());
+    alert(failed > 0 ? `${failed}件の音声を生成できませんでした` : '音声キャッシュを作成しました');
+  }
+
+  async function handleClearCache() {
+    if (!confirm('音声キャッシュをすべて削除してもよろしいですか？')) return;
+    await clearSpeechCache();
+    setCacheStats(await getSpeechCacheStats());
+  }
+
+  const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#0066CC]';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-yuyama p-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-6">音声設定</h2>
+
+      {/* 対象の選択 */}
+      <div className="mb-6 max-w-md">
+        <label className="block text-sm font-medium text-gray-700 mb-1">適用範囲</label>
+        <select value={scope} onChange={(e) => loadScope(e.target.value)} className={inputClass}>
+          <option value={GLOBAL_SCOPE}>全体共通</option>
+          <optgroup label="アバター">
+            {Object.entries(AVATARS).map(([id, avatar]) => (
+              <option key={id} value={`${AVATAR_PREFIX}${id}`}>{avatar.label}</option>
+            ))}
+          </optgroup>
+          <optgroup label="文診表">
+            {questionnaires.map((q) => (
+              <option key={q.id} value={`${QUESTIONNAIRE_PREFIX}${q.id}`}>{q.title}</option>
+            ))}
+          </optgroup>
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          共通設定 → アバター → 文診表の順に上書きされます。空欄の項目は上位の設定（薄字で表示）が使用されます。
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-3xl">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">プロバイダー</label>
+          <select value={draft.provider} onChange={(e) => updateField('provider', e.target.value)} className={inputClass}>
+            <option value="">{isGlobal ? '既定' : '上位の設定に従う'}（{TTS_PROVIDER_LABELS[fallback.provider]}）</option>
+            {(Object.keys(TTS_PROVIDER_LABELS) as TTSProviderId[]).map((id) => (
+              <option key={id} value={id}>{TTS_PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">声</label>
+          <input
+            type="text"
+            list={provider === 'openai' ? 'openai-voices' : undefined}
+            value={draft.voice}
+            onChange={(e) => updateField('voice', e.target.value)}
+            placeholder={fallback.voice}
+            className={inputClass}
+          />
+          <datalist id="openai-voices">
+            {OPENAI_VOICES.map((voice) => (
+              <option key={voice} value={voice} />
+            ))}
+          </datalist>
+          <p className="mt-1 text-xs text-gray-500">
+            {provider === 'openai'
+              ? 'OpenAI TTSの声の名前'
+              : provider === 'browser'
+                ? 'ブラウザの音声名（一致しない場合は言語の既定の声）'
+                : 'ローカルTTSサーバーの話者名'}
+          </p>
+        </div>
+
+        {provider === 'openai' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">モデル</label>
+            <input
+              type="text"
+              value={draft.model}
+              onChange={(e) => updateField('model', e.target.value)}
+              placeholder={fallback.model}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {provider === 'http' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">サーバーのURL</label>
+            <input
+              type="text"
+              value={draft.endpoint}
+              onChange={(e) => updateField('endpoint', e.target.value)}
+              placeholder={fallback.endpoint}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        {NUMBER_FIELDS.map(({ key, label, min, max, step }) => (
+          <div key={key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <input
+              type="number"
+              value={draft[key]}
+              onChange={(e) => updateField(key, e.target.value)}
+              min={min}
+              max={max}
+              step={step}
+              placeholder={String(fallback[key])}
+              className={inputClass}
+            />
+            {key === 'pitch' && provider === 'openai' && (
+              <p className="mt-1 text-xs text-gray-500">OpenAI TTSでは使用されません（代替のブラウザ読み上げのみ）</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-6 flex gap-3 justify-end">
+        <button
+          onClick={handlePreview}
+          className="px-4 py-2 border border-[#0066CC] text-[#0066CC] rounded-lg hover:bg-blue-50 transition-colors"
+        >
+          {isPreviewing ? '試聴を停止' : '🔊 試聴する'}
+        </button>
+        <button
+          onClick={() => setDraft(toDraft({}))}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors"
+        >
+          {isGlobal ? '既定値に戻す' : '上書きをすべて解除'}
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-6 py-2 gradient-primary text-white rounded-lg hover:opacity-90 transition-all"
+        >
+          保存
+        </button>
+      </div>
+
+      {/* 音声キャッシュ */}
+      <div className="mt-8 pt-6 border-t border-gray-200">
+        <h3 className="text-lg font-bold text-gray-800 mb-2">音声キャッシュ</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          一度生成した音声はブラウザに保存し、同じ文・声では再生成しません（上限 {formatMegabytes(MAX_CACHE_BYTES)}、古いものから削除）。
+          {cacheStats && ` 現在 ${cacheStats.count}件・${formatMegabytes(cacheStats.bytes)}`}
+        </p>
+        <div className="flex gap-3">
+          {scope.startsWith(QUESTIONNAIRE_PREFIX) && (
+            <button
+              onClick={handlePrewarm}
+              disabled={!!prewarmProgress}
+              className="px-4 py-2 border border-[#0066CC] text-[#0066CC] rounded-lg hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {prewarmProgress
+                ? `作成中… ${prewarmProgress.done}/${prewarmProgress.total}`
+                : 'この文診表の音声を事前作成（保存済みの設定）'}
+            </button>
+          )}
+          <button
+            onClick={handleClearCache}
+            disabled={!!prewarmProgress}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            キャッシュを削除
+          </button>
+        </div>
+      </div>
+
+      {/* 音声入力の終了判定（この端末の設置場所に合わせる） */}
+      <div className="mt-8 pt-6 border-t border-gray-200">
+        <h3 className="text-lg font-bold text-gray-800 mb-2">音声入力の終了判定</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          マイクの音量で患者が話し終えたことを判定します。この端末の設置場所に合わせて選んでください（選択するとすぐに保存されます）。
+        </p>
+        <div className="space-y-2">
+          {VAD_PROFILE_IDS.map((id) => (
+            <label key={id} className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="vadProfile"
+                checked={vadProfileId === id}
+                onChange={() => {
+                  setVADProfileId(id);
+                  saveVADProfileId(id);
+                }}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-gray-800">{VAD_PROFILES[id].label}</span>
+                <span className="block text-sm text-gray-500">{VAD_PROFILES[id].description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* 音声入力（文字起こし）のバックエンド */}
+      <div className="mt-8 pt-6 border-t border-gray-200">
+        <h3 className="text-lg font-bold text-gray-800 mb-2">音声入力（文字起こし）</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          ブラウザの音声認識に対応していない端末では、録音した音声を文字起こしサーバーに送って認識します。
+          この端末: 音声認識 {sttSupport.webSpeech ? '対応' : '非対応'}・録音 {sttSupport.recording ? '対応' : '非対応'}
+          {resolvedSTTProvider ? `（この設定では「${STT_PROVIDER_LABELS[resolvedSTTProvider]}」を使用）` : '（音声入力は利用できません）'}
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-3xl">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">プロバイダー</label>
+            <select
+              value={sttDraft.provider}
+              onChange={(e) => setSTTDraft({ ...sttDraft, provider: e.target.value as STTProviderSetting })}
+              className={inputClass}
+            >
+              {(Object.keys(STT_PROVIDER_LABELS) as STTProviderSetting[]).map((id) => (
+                <option key={id} value={id}>{STT_PROVIDER_LABELS[id]}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              録音して送信する方式では、話している途中の表示と割り込み発話は使えません
+            </p>
+          </div>
+
+          {(sttDraft.provider === 'openai' || sttDraft.provider === 'http') && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">モデル</label>
+              <input
+                type="text"
+                value={sttDraft.model}
+                onChange={(e) => setSTTDraft({ ...sttDraft, model: e.target.value })}
+                placeholder={DEFAULT_STT_SETTINGS.model}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {sttDraft.provider === 'http' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">サーバーのURL</label>
+              <input
+                type="text"
+                value={sttDraft.endpoint}
+                onChange={(e) => setSTTDraft({ ...sttDraft, endpoint: e.target.value })}
+                placeholder={DEFAULT_STT_SETTINGS.endpoint}
+                className={inputClass}
+              />
+              <p className="mt-1 text-xs text-gray-500">OpenAI互換の文字起こしAPI（multipart/form-data で file を受け付けるもの）</p>
+            </div>
+          )}
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={handleSaveSTT}
+            className="px-6 py-2 gradient-primary text-white rounded-lg hover:opacity-90 transition-all"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { STTStatus } from '@/types';
+import { HANDS_FREE_RESTART_DELAY_MS, HANDS_FREE_SILENCE_CHECK_MS, HANDS_FREE_SILENCE_MS } from '@/lib/handsFree';
+
+interface UseHandsFreeConversationProps {
+  active: boolean; // 患者の回答を待っている（読み上げ中・AI応答待ちではない）
+  sttStatus: STTStatus;
+  transcript: string;
+  startListening: () => void;
+  onSilence: () => void; // 発話がないまま時間が経過した場合
+  silenceTimeout?: number;
+}
+
+// ハンズフリーの音声対話: 患者の回答を待つ間は音声認識を自動で再開し、長い無音を知らせる
+export function useHandsFreeConversation({
+  active,
+  sttStatus,
+  transcript,
+  startListening,
+  onSilence,
+  silenceTimeout = HANDS_FREE_SILENCE_MS,
+}: UseHandsFreeConversationProps) {
+  // コールバックはrefで管理し、タイマーの再設定を防ぐ
+  const onSilenceRef = useRef(onSilence);
+  // 無音が始まった時刻（患者の番になった時・認識途中の文が消えた時に更新、話している間は null）
+  // 音声認識の再開（状態の変化）では更新しない
+  const silenceStartRef = useRef<number | null>(null);
+  const sttStatusRef = useRef(sttStatus);
+
+  useEffect(() => {
+    sttStatusRef.current = sttStatus;
+  }, [sttStatus]);
+
+  useEffect(() => {
+    onSilenceRef.current = onSilence;
+  }, [onSilence]);
+
+  // 音声認識が止まっていれば再開（結果の送信後、ブラウザが無音で認識を終了した後など）
+  useEffect(() => {
+    if (!active || sttStatus !== 'idle') return;
+
+    const timer = setTimeout(startListening, HANDS_FREE_RESTART_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [active, sttStatus, startListening]);
+
+  useEffect(() => {
+    silenceStartRef.current = active && !transcript ? Date.now() : null;
+  }, [active, transcript]);
+
+  // 発話がないまま一定時間経過したら知らせる（認識途中の文がある間・録音した発話の文字起こし中は待たない）
+  // 録音して文字起こしする場合は聞き取りが10秒ごとに区切られるが、無音の時間はその間も数え続ける
+  useEffect(() => {
+    if (!active) return;
+
+    const timer = setInterval(() => {
+      const silenceStart = silenceStartRef.current;
+      if (silenceStart === null || sttStatusRef.current === 'processing') return;
+      if (Date.now() - silenceStart < silenceTimeout) return;
+
+      // 知らせた後は改めて数える
+      silenceStartRef.current = Date.now();
+      onSilenceRef.current();
+    }, HANDS_FREE_SILENCE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [active, silenceTimeout]);
+}
@@ -2,72 +2,211 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { STTStatus } from '@/types';
+import { VADProfile, startVoiceActivityDetection } from '@/lib/vad';
+import { DEFAULT_STT_SETTINGS, STTEngine, STTResult, STTSettings, createSTTEngine, resolveSTTProvider } from '@/lib/stt';
 
 interface UseSpeechRecognitionProps {
   onResult: (transcript: string) => void;
   onError?: (error: string) => void;
   language?: string;
-  silenceTimeout?: number;
+  silenceTimeout?: number; // 発話の終了を認識結果の途絶えで判定する場合の待ち時間（VADを使えない場合）
+  vadProfile?: VADProfile | null; // マイクの音量で発話の終了を判定する（VAD）
+  sttSettings?: STTSettings; // 音声認識のバックエンド（ブラウザの音声認識・録音して文字起こし）
 }
 
+// VADで発話の終了を検出してから送信するまでの待ち時間（確定した認識結果が届くのを待つ）
+const VAD_RESULT_GRACE_MS = 400;
+// 録音して文字起こしする場合: 発話がないまま聞き取りを終了するまでの時間（ブラウザの音声認識の no-speech 相当）
+const NO_SPEECH_TIMEOUT_MS = 10000;
+// 録音して文字起こしする場合: 1回の発話の最大の長さ（超えた分はそこまでで文字起こし）
+const MAX_UTTERANCE_MS = 30000;
+
 export function useSpeechRecognition({
   onResult,
   onError,
   language = 'ja-JP',
   silenceTimeout = 2000,
+  vadProfile = null,
+  sttSettings = DEFAULT_STT_SETTINGS,
 }: UseSpeechRecognitionProps) {
   const [status, setStatus] = useState<STTStatus>('idle');
   const [transcript, setTranscript] = useState('');
-  const recognitionRef = useRef<any>(null);
+  const recognitionRef = useRef<STTEngine | null>(null);
   const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const recordingTimerRef = useRef<NodeJS.Timeout | null>(null); // 録音して文字起こしする場合の聞き取りの時間制限
   const lastTranscriptRef = useRef('');
   const isActiveRef = useRef(false); // 認識が有効かどうかを追跡
   const accumulatedFinalRef = useRef(''); // 確定テキストを累積
+  const resultOffsetRef = useRef(0); // reset() より前の認識結果は無視
+  const resultCountRef = useRef(0); // 受け取った認識結果の数
+  const vadRef = useRef<{ stop(): void } | null>(null); // 発話区間の検出（VAD）
+  const micStreamRef = useRef<MediaStream | null>(null); // VAD用のマイク
+  const vadSpeakingRef = useRef(false); // VADが発話中と判定している
+  const vadHeardSpeechRef = useRef(false); // 今回の認識でVADが発話を検出した（検出できない小さな声は従来の判定）
 
   // コールバックと設定値をrefで管理し、useEffect 再実行防止
   const onResultRef = useRef(onResult);
   const onErrorRef = useRef(onError);
   const silenceTimeoutRef = useRef(silenceTimeout);
+  const vadProfileRef = useRef(vadProfile);
 
   // ref 값 업데이트
   useEffect(() => {
     onResultRef.current = onResult;
     onErrorRef.current = onError;
     silenceTimeoutRef.current = silenceTimeout;
-  }, [onResult, onError, silenceTimeout]);
+    vadProfileRef.current = vadProfile;
+  }, [onResult, onError, silenceTimeout, vadProfile]);
+
+  const clearRecordingTimer = useCallback(() => {
+    if (recordingTimerRef.current) {
+      clearTimeout(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
+  }, []);
+
+  // VADとマイクを停止
+  const stopVAD = useCallback(() => {
+    vadRef.current?.stop();
+    vadRef.current = null;
+    micStreamRef.current?.getTracks().forEach(track => track.stop());
+    micStreamRef.current = null;
+    vadSpeakingRef.current = false;
+    vadHeardSpeechRef.current = false;
+  }, []);
+
+  // 認識結果を送信して聞き取りを終了
+  const finishUtterance = useCallback(() => {
+    if (lastTranscriptRef.current.trim() && isActiveRef.current) {
+      console.log('送信:', lastTranscriptRef.current.trim());
+      onResultRef.current(lastTranscriptRef.current.trim());
+      setTranscript('');
+      lastTranscriptRef.current = '';
+      accumulatedFinalRef.current = ''; // 初期化
+      isActiveRef.current = false;
+      setStatus('idle');
+      stopVAD();
+      clearRecordingTimer();
+      try {
+        recognitionRef.current?.stop();
+      } catch (e) {
+        console.log('Recognition already stopped');
+      }
+    }
+  }, [stopVAD, clearRecordingTimer]);
+
+  // 無音を検出したら、少し待ってから認識結果を送信
+  const scheduleFinish = useCallback((delay: number) => {
+    if (silenceTimerRef.current) {
+      clearTimeout(silenceTimerRef.current);
+    }
+
+    silenceTimerRef.current = setTimeout(() => {
+      if (!isActiveRef.current) return;
+
+      setStatus('silenceDetected');
+      console.log('無音検出、送信準備中...');
+
+      // さらに少し待ってから送信
+      setTimeout(finishUtterance, 10);
+    }, delay);
+  }, [finishUtterance]);
+
+  // 録音して文字起こしする場合: 録音を止めて文字起こしを依頼（結果は onresult に届く）
+  const finishRecording = useCallback(() => {
+    clearRecordingTimer();
+    if (!isActiveRef.current) return;
+
+    console.log('発話終了、文字起こし中...');
+    setStatus('processing');
+    recognitionRef.current?.finish();
+  }, [clearRecordingTimer]);
+
+  // 録音して文字起こしする場合の時間制限（発話を検出できないまま経過したら録音を破棄）
+  const startRecordingTimer = useCallback((delay: number) => {
+    clearRecordingTimer();
+    recordingTimerRef.current = setTimeout(() => {
+      if (vadRef.current && !vadHeardSpeechRef.current) {
+        console.log('発話がないため聞き取りを終了');
+        recognitionRef.current?.stop();
+      } else {
+        finishRecording();
+      }
+    }, delay);
+  }, [clearRecordingTimer, finishRecording]);
+
+  // マイクの音量で発話の開始・終了を検出（マイクを使えない場合は認識結果の途絶えで判定）
+  const startVAD = useCallback(async () => {
+    const profile = vadProfileRef.current;
+    if (!profile || typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) return;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: false },
+      });
+      // マイクの許可待ちの間に停止された場合
+      if (!isActiveRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      stopVAD();
+      micStreamRef.current = stream;
+      const streaming = recognitionRef.current?.streaming ?? true;
+      vadRef.current = startVoiceActivityDetection(stream, profile, (event) => {
+        if (event === 'speechStart') {
+          vadSpeakingRef.current = true;
+          vadHeardSpeechRef.current = true;
+          if (silenceTimerRef.current) {
+            clearTimeout(silenceTimerRef.current);
+          }
+          setStatus('listening');
+          if (!streaming) {
+            startRecordingTimer(MAX_UTTERANCE_MS);
+          }
+        } else {
+          vadSpeakingRef.current = false;
+          if (!streaming) {
+            finishRecording();
+          } else if (lastTranscriptRef.current.trim()) {
+            scheduleFinish(VAD_RESULT_GRACE_MS);
+          }
+        }
+      });
+    } catch (error) {
+      console.warn('発話検出（VAD）を開始できません。認識結果の途絶えで判定します:', error);
+    }
+  }, [scheduleFinish, stopVAD, startRecordingTimer, finishRecording]);
 
   useEffect(() => {
-    // Web Speech API対応チェック
+    // 音声認識のバックエンドを選択（ブラウザの音声認識 → 録音して文字起こし）
     if (typeof window !== 'undefined') {
-      const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-
-      if (SpeechRecognition) {
-        const recognition = new SpeechRecognition();
-        recognition.lang = language;
-        recognition.continuous = true;
-        recognition.interimResults = true;
-        recognition.maxAlternatives = 1;
+      const recognition = createSTTEngine(sttSettings, language);
 
+      if (recognition) {
         recognition.onstart = () => {
           console.log('音声認識開始');
           setStatus('listening');
           isActiveRef.current = true;
           accumulatedFinalRef.current = ''; // 初期化
+          resultOffsetRef.current = 0;
+          resultCountRef.current = 0;
         };
 
-        recognition.onresult = (event: any) => {
+        recognition.onresult = (results: STTResult[], resultIndex: number) => {
           if (!isActiveRef.current) return;
 
           let interimTranscript = '';
+          resultCountRef.current = results.length;
 
-          // すべての結果を処理
-          for (let i = 0; i < event.results.length; i++) {
-            const result = event.results[i];
-            const text = result[0].transcript;
+          // すべての結果を処理（reset() より前のものを除く）
+          for (let i = resultOffsetRef.current; i < results.length; i++) {
+            const result = results[i];
+            const text = result.transcript;
 
             if (result.isFinal) {
               // 確定結果累積
-              if (i >= event.resultIndex) {
+              if (i >= resultIndex) {
                 accumulatedFinalRef.current += text;
               }
             } else {
@@ -81,51 +220,39 @@ export function useSpeechRecognition({
           setTranscript(currentTranscript);
           lastTranscriptRef.current = currentTranscript;
 
-          // 無音タイマーをリセット
-          if (silenceTimerRef.current) {
-            clearTimeout(silenceTimerRef.current);
+          if (!recognition.streaming) {
+            // 文字起こしの結果は発話全体の確定結果のため、そのまま送信
+            finishUtterance();
+            return;
           }
 
-          // 新しい無音タイマーを設定
           setStatus('listening');
-          silenceTimerRef.current = setTimeout(() => {
-            if (!isActiveRef.current) return;
-
-            setStatus('silenceDetected');
-            console.log('無音検出、送信準備中...');
-
-            // さらに少し待ってから送信
-            setTimeout(() => {
-              if (lastTranscriptRef.current.trim() && isActiveRef.current) {
-                console.log('送信:', lastTranscriptRef.current.trim());
-                onResultRef.current(lastTranscriptRef.current.trim());
-                setTranscript('');
-                lastTranscriptRef.current = '';
-                accumulatedFinalRef.current = ''; // 初期化
-                isActiveRef.current = false;
-                setStatus('idle');
-                try {
-                  recognition.stop();
-                } catch (e) {
-                  console.log('Recognition already stopped');
-                }
-              }
-            }, 10);
-          }, silenceTimeoutRef.current);
+          if (!vadHeardSpeechRef.current) {
+            // VADを使えない・発話を検出できていない場合は、認識結果が途絶えてからの時間で判定
+            scheduleFinish(silenceTimeoutRef.current);
+          } else if (!vadSpeakingRef.current) {
+            // VADが発話の終了を検出した後に届いた結果
+            scheduleFinish(VAD_RESULT_GRACE_MS);
+          } else if (silenceTimerRef.current) {
+            // 発話中は送信しない
+            clearTimeout(silenceTimerRef.current);
+          }
         };
 
-        recognition.onerror = (event: any) => {
+        recognition.onerror = (error: string) => {
           // 'no-speech'や'aborted'エラーは無視（ログも出さない）
-          if (event.error === 'no-speech' || event.error === 'aborted') {
+          if (error === 'no-speech' || error === 'aborted') {
             return;
           }
 
-          console.error('音声認識エラー:', event.error);
+          console.error('音声認識エラー:', error);
           if (onErrorRef.current) {
-            onErrorRef.current(event.error);
+            onErrorRef.current(error);
           }
           isActiveRef.current = false;
           setStatus('idle');
+          stopVAD();
+          clearRecordingTimer();
         };
 
         recognition.onend = () => {
@@ -135,13 +262,15 @@ export function useSpeechRecognition({
           // 常にisActiveをfalseに設定（次回のstart()を可能にする）
           isActiveRef.current = false;
           setStatus('idle');
+          stopVAD();
+          clearRecordingTimer();
         };
 
         recognitionRef.current = recognition;
       } else {
-        console.error('Web Speech API is not supported in this browser');
+        console.error('No speech recognition backend is available in this browser');
         if (onErrorRef.current) {
-          onErrorRef.current('Web Speech APIがサポートされていません');
+          onErrorRef.current('音声認識がサポートされていません');
         }
       }
     }
@@ -150,9 +279,13 @@ export function useSpeechRecognition({
       if (silenceTimerRef.current) {
         clearTimeout(silenceTimerRef.current);
       }
+      stopVAD();
+      clearRecordingTimer();
+      recognitionRef.current?.stop();
+      recognitionRef.current = null;
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [language]); // silenceTimeout, onResult, onError는 ref로 관리하므로 의존성에서 제외
+  }, [language, sttSettings]); // silenceTimeout, onResult, onError는 ref로 관리하므로 의존성에서 제외
 
   const start = useCallback(() => {
     console.log('start()呼び出し - recognitionRef:', !!recognitionRef.current, 'isActive:', isActiveRef.current);
@@ -162,9 +295,15 @@ export function useSpeechRecognition({
         setTranscript('');
         lastTranscriptRef.current = '';
         accumulatedFinalRef.current = ''; // 누적 텍스트 초기화
+        resultOffsetRef.current = 0;
+        resultCountRef.current = 0;
         isActiveRef.current = true;
         recognitionRef.current.start();
         setStatus('listening');
+        if (!recognitionRef.current.streaming) {
+          startRecordingTimer(NO_SPEECH_TIMEOUT_MS);
+        }
+        void startVAD();
       } catch (e) {
         console.error('Failed to start recognition:', e);
         isActiveRef.current = false;
@@ -174,7 +313,7 @@ export function useSpeechRecognition({
     } else {
       console.error('recognitionRefが存在しません');
     }
-  }, []);
+  }, [startVAD, startRecordingTimer]);
 
   const stop = useCallback(() => {
     if (recognitionRef.current) {
@@ -189,16 +328,38 @@ export function useSpeechRecognition({
       if (silenceTimerRef.current) {
         clearTimeout(silenceTimerRef.current);
       }
+      stopVAD();
+      clearRecordingTimer();
+    }
+  }, [stopVAD, clearRecordingTimer]);
+
+  // 認識を続けたまま、ここまでに聞き取った内容を破棄（アバターの読み上げの反響など）
+  const reset = useCallback(() => {
+    resultOffsetRef.current = resultCountRef.current;
+    vadHeardSpeechRef.current = vadSpeakingRef.current;
+    accumulatedFinalRef.current = '';
+    lastTranscriptRef.current = '';
+    setTranscript('');
+    if (silenceTimerRef.current) {
+      clearTimeout(silenceTimerRef.current);
+      silenceTimerRef.current = null;
+    }
+    if (isActiveRef.current) {
+      setStatus('listening');
     }
   }, []);
 
+  const provider = resolveSTTProvider(sttSettings.provider);
+
   return {
     status,
     transcript,
     start,
     stop,
-    isSupported: typeof window !== 'undefined' && 
-      ((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition),
+    reset,
+    isSupported: provider !== null,
+    // 話している途中の認識結果が得られるか（録音して文字起こしする場合は発話の終了後のみ）
+    isStreaming: provider === 'webSpeech',
   };
 }
 
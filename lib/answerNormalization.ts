@@ -0,0 +1,189 @@
+// 質問タイプ（選択・複数選択・0〜10のスケール）に合わせた回答の正規化
+import { Answer, NormalizedValue, Question } from '@/types';
+
+// 全角・半角と空白の違いをそろえる
+function normalizeText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, '');
+}
+
+// 漢数字（十・百は位取り）
+const KANJI_DIGITS: Record<string, number> = {
+  '〇': 0, '零': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9,
+};
+// 単独の漢数字のみ（「一応」「十分」のように語の一部になっているものは数値にしない）
+const KANJI_NUMERAL_PATTERN = /[〇零一二三四五六七八九十百]+(?=点|段階|程度|[^\p{Script=Han}\w]|$)/gu;
+
+// 選択肢の直後に続く打ち消し（「十分ではない」「頭痛はない」）
+const NEGATION_PATTERN = /^(では|じゃ|は|が|も)?(ない|なく|無い|ありません|ございません)/;
+
+// 数値の直後に続く単位（「3日前」「2回」はスケールの値ではない）
+const NON_SCALE_UNIT_PATTERN = /^(日|週|年|時間|分|秒|回|度|℃|歳|才|か月|ヶ月|カ月|ケ月|月|錠|mg|kg|cm|%|番|人|個|階)/;
+// スケールの値であることを示す前後の言葉（「痛みは7」「7点」「7くらい」）
+const SCALE_BEFORE_PATTERN = /(痛み|痛さ|強さ|つらさ|辛さ|程度|レベル|スケール)(は|が|で|だと)?$/;
+const SCALE_AFTER_PATTERN = /^(点|くらい|ぐらい|程度|位|\/10)/;
+
+// 漢数字を数値に（例: 十五 → 15、二十 → 20、一〇 → 10）
+function parseKanjiNumber(text: string): number {
+  let total = 0;
+  let current = 0;
+  for (const char of text) {
+    if (char === '百') {
+      total += (current || 1) * 100;
+      current = 0;
+    } else if (char === '十') {
+      total += (current || 1) * 10;
+      current = 0;
+    } else {
+      current = current * 10 + KANJI_DIGITS[char];
+    }
+  }
+  return total + current;
+}
+
+// 回答を正規化する質問か（自由記述は対象外）
+export function isNormalizedQuestion(question: Question): boolean {
+  if (question.type === 'scale') return true;
+  return (question.type === 'choice' || question.type === 'multiChoice') && !!question.options?.length;
+}
+
+// 選択肢をプロンプト・読み上げ用に列挙（例: 「十分」「やや不足」「不足」）
+export function formatOptions(options: string[]): string {
+  return options.map(option => `「${option}」`).join('');
+}
+
+// プロンプトに添える回答形式（自由記述は空文字）
+export function describeAnswerFormat(question: Question): string {
+  if (!isNormalizedQuestion(question)) return '';
+  if (question.type === 'scale') return '0〜10の数値';
+  const options = question.options!.join(' / ');
+  return question.type === 'multiChoice' ? `複数選択可: ${options}` : `選択肢: ${options}`;
+}
+
+// 正規化した値の表示（例: やや不足 / 頭痛、発熱 / 7/10）
+export function formatNormalizedValue(value: NormalizedValue): string {
+  if (Array.isArray(value)) return value.join('、');
+  if (typeof value === 'number') return `${value}/10`;
+  return value;
+}
+
+// 回答に含まれる選択肢を、長いものから順に探す（一致した部分は取り除き、短い選択肢の誤検出を防ぐ）
+// 「十分ではない」のように打ち消された選択肢は含めない
+function findMentionedOptions(answer: string, options: string[]): Set<string> {
+  let rest = normalizeText(answer);
+  const matched = new Set<string>();
+
+  for (const option of [...options].sort((a, b) => b.length - a.length)) {
+    const key = normalizeText(option);
+    if (!key || !rest.includes(key)) continue;
+
+    const parts = rest.split(key);
+    if (parts.slice(1).some(following => !NEGATION_PATTERN.test(following))) {
+      matched.add(option);
+    }
+    rest = parts.join('／');
+  }
+  return matched;
+}
+
+// 選択肢に一致する回答を探す（「2番」のような番号での回答も可）
+// 完全に一致しない場合は、回答に含まれる選択肢が1つに決まるときのみ（迷う場合は null で聞き直す）
+export function matchChoiceOption(answer: string, options: string[]): string | null {
+  const normalized = normalizeText(answer);
+
+  const numbered = normalized.match(/^(\d+)番?(です)?$/);
+  if (numbered) {
+    return options[Number(numbered[1]) - 1] || null;
+  }
+
+  const exact = options.find(option => normalizeText(option) === normalized.replace(/(です|だと思います)$/, ''));
+  if (exact) return exact;
+
+  const mentioned = findMentionedOptions(answer, options);
+  return mentioned.size === 1 ? [...mentioned][0] : null;
+}
+
+// 回答に含まれる選択肢をすべて探す（選択肢の順に並べる）
+export function matchMultiChoiceOptions(answer: string, options: string[]): string[] | null {
+  const normalized = normalizeText(answer);
+  const matched = findMentionedOptions(answer, options);
+
+  // 「1と3」のような番号での回答
+  if (matched.size === 0 && /^[\d番、,と・及び]+(です)?$/.test(normalized)) {
+    for (const digits of normalized.match(/\d+/g) || []) {
+      const option = options[Number(digits) - 1];
+      if (option) matched.add(option);
+    }
+  }
+
+  return matched.size > 0 ? options.filter(option => matched.has(option)) : null;
+}
+
+// スケール（0〜10）の回答から数値を取り出す（例: 「7くらい」「10段階中7」「七です」「3日前から、痛みは7くらい」）
+// 日数・回数などの単位が付いた数値は除き、候補が複数ある場合は「痛みは」「点」「くらい」が付いたものを選ぶ
+export function parseScaleValue(answer: string): number | null {
+  const text = normalizeText(answer)
+    .replace(KANJI_NUMERAL_PATTERN, numeral => String(parseKanjiNumber(numeral)))
+    // 「10段階中7」「10で7」の前置きを除く（数値が続く場合のみ、「10です」は値として残す）
+    .replace(/10(段階|点)?(中|のうち|で)(?=\d)/g, '');
+
+  const candidates = [...text.matchAll(/\d+(\.\d+)?/g)]
+    .map(match => ({
+      value: Number(match[0]),
+      before: text.slice(0, match.index),
+      after: text.slice(match.index + match[0].length),
+    }))
+    .filter(candidate => !NON_SCALE_UNIT_PATTERN.test(candidate.after));
+
+  const preferred = candidates.filter(candidate =>
+    SCALE_BEFORE_PATTERN.test(candidate.before) || SCALE_AFTER_PATTERN.test(candidate.after)
+  );
+  const chosen = preferred.length === 1 ? preferred[0] : candidates.length === 1 ? candidates[0] : null;
+  if (!chosen) return null;
+
+  const value = Math.round(chosen.value);
+  return value >= 0 && value <= 10 ? value : null;
+}
+
+// 質問タイプに合わせて回答を正規化（当てはまらない場合は null）
+export function normalizeAnswer(question: Question, answer: string): NormalizedValue | null {
+  if (!isNormalizedQuestion(question)) return null;
+
+  switch (question.type) {
+    case 'scale':
+      return parseScaleValue(answer);
+    case 'multiChoice':
+      return matchMultiChoiceOptions(answer, question.options!);
+    default:
+      return matchChoiceOption(answer, question.options!);
+  }
+}
+
+// 質問に対して最後に記録された正規化済みの値
+export function findNormalizedValue(answers: Answer[], questionId: string): NormalizedValue | undefined {
+  return answers.filter(a => a.questionId === questionId && a.normalizedValue !== undefined).pop()?.normalizedValue;
+}
+
+// 対話AIに渡す回答形式の確認状況（当てはまらない回答は選択肢を示して聞き直させる）
+// answersは現在の質問に対するこれまでの回答
+export function formatAnswerFormatStatus(question: Question, answers: Answer[]): string {
+  if (!isNormalizedQuestion(question) || answers.length === 0) return '';
+
+  const format = describeAnswerFormat(question);
+  const latest = answers[answers.length - 1];
+
+  if (latest.normalizedValue !== undefined) {
+    return `【回答形式】${format}\n回答は「${formatNormalizedValue(latest.normalizedValue)}」として記録済み。`;
+  }
+
+  const expected = question.type === 'scale'
+    ? '0から10の数字'
+    : `${formatOptions(question.options!)}${question.type === 'multiChoice' ? 'の中から当てはまるものすべて' : 'のいずれか'}`;
+
+  // 聞き直しても当てはまらない場合は、発話をそのまま記録して先へ進む
+  const unmatchedCount = answers.filter(a => a.normalizedValue === undefined).length;
+  if (unmatchedCount >= 2) {
+    return `【回答形式】${format}\n聞き直しても回答が形式に当てはまらないため、これ以上聞き直さずに次へ進むこと（needMoreInfo = false）。`;
+  }
+
+  return `【回答形式】${format}\n患者の回答が形式に当てはまらないため、${expected}で答えてもらうよう、選択肢を示して聞き直すこと（needMoreInfo = true）。`;
+}
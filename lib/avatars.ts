@@ -0,0 +1,11 @@
+// アバター（VRMモデル）の一覧（読み上げの声はアバターごとにも設定できる）
+export interface AvatarConfig {
+  label: string;
+  modelUrl: string;
+}
+
+export const DEFAULT_AVATAR_ID = 'boc';
+
+export const AVATARS: Record<string, AvatarConfig> = {
+  boc: { label: '標準アバター', modelUrl: '/BOC.vrm' },
+};
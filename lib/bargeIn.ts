@@ -0,0 +1,101 @@
+// 割り込み発話（バージイン）: アバターの読み上げ中に患者が話し始めたことを検出する
+// 読み上げの音声がマイクに回り込んで認識される（反響）ため、読み上げ中の文と一致する部分を除いて判定する
+
+// 反響とみなす一致の最小文字数
+const ECHO_MIN_MATCH = 3;
+// 反響の途中で誤認識された文字として読み飛ばす最大文字数
+const ECHO_MAX_GAP = 2;
+
+// 患者の発話とみなす最小文字数（反響を除き、空白を含まない）
+export const BARGE_IN_MIN_CHARS = 2;
+// この時間（ミリ秒）話し続けた場合に読み上げを止める
+export const BARGE_IN_SUSTAIN_MS = 500;
+
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+// 1文字ずつ正規化し、正規化後の各文字が元の文のどこまでに当たるかを記録（元の表記のまま切り出すため）
+function normalizeWithOffsets(text: string): { normalized: string; ends: number[] } {
+  let normalized = '';
+  const ends: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    index += char.length;
+    const converted = normalize(char);
+    normalized += converted;
+    for (let i = 0; i < converted.length; i++) {
+      ends.push(index);
+    }
+  }
+  return { normalized, ends };
+}
+
+// 読み上げ中の文のうち、heard の start 文字目から一致する最長の長さ
+function longestEchoMatch(heard: string, spoken: string, start: number): number {
+  let length = 0;
+  while (start + length < heard.length && spoken.includes(heard.slice(start, start + length + 1))) {
+    length++;
+  }
+  return length;
+}
+
+// 認識結果の先頭から、読み上げ中の文の反響と思われる部分を除く
+// 患者の発話は反響の後に続くため、先頭以外で読み上げと同じ言葉を使っても除かない
+export function removeEcho(heard: string, spoken: string): string {
+  const { normalized: normalizedHeard, ends } = normalizeWithOffsets(heard);
+  const normalizedSpoken = normalize(spoken).replace(/\s+/g, '');
+  if (!normalizedSpoken) return heard.trim();
+
+  let position = 0;
+  let echoEnd = 0;
+  while (position < normalizedHeard.length) {
+    if (/\s/.test(normalizedHeard[position])) {
+      position++;
+      continue;
+    }
+
+    let matched = false;
+    for (let gap = 0; gap <= ECHO_MAX_GAP && position + gap < normalizedHeard.length; gap++) {
+      const length = longestEchoMatch(normalizedHeard, normalizedSpoken, position + gap);
+      if (length >= ECHO_MIN_MATCH) {
+        position += gap + length;
+        echoEnd = position;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) break;
+  }
+
+  // 患者の発話は元の表記（大文字・全角など）のまま返す
+  return echoEnd > 0 ? heard.slice(ends[echoEnd - 1]).trim() : heard.trim();
+}
+
+// 認識途中の文から、患者が反響ではなく自分の言葉を話し続けているかを判定
+export function createBargeInDetector({
+  minChars = BARGE_IN_MIN_CHARS,
+  sustainMs = BARGE_IN_SUSTAIN_MS,
+}: { minChars?: number; sustainMs?: number } = {}) {
+  let startedAt: number | null = null;
+
+  return {
+    // 認識途中の文を受け取り、読み上げを止めるべきであれば true
+    update(heard: string, spoken: string, now = Date.now()): boolean {
+      const speech = removeEcho(heard, spoken).replace(/\s+/g, '');
+      if (speech.length < minChars) {
+        startedAt = null;
+        return false;
+      }
+      startedAt ??= now;
+      return now - startedAt >= sustainMs;
+    },
+    // 患者の発話を検出している途中か（読み上げが先に終わった場合も聞き取りを続ける）
+    hasSpeech(): boolean {
+      return startedAt !== null;
+    },
+    reset() {
+      startedAt = null;
+    },
+  };
+}
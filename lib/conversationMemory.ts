@@ -0,0 +1,65 @@
+import { Answer } from '@/types';
+import { compressConversation } from '@/lib/openai';
+import { AISettings, DEFAULT_AI_SETTINGS } from '@/lib/settings';
+import { countMessageTokens, fitToBudget } from '@/lib/tokens';
+
+// 直近の会話としてそのまま渡す履歴のトークン予算
+const HISTORY_TOKEN_BUDGET = 1500;
+// 圧縮時は予算のこの割合まで減らす（毎ターン圧縮が走らないように余裕を持たせる）
+const COMPACT_TARGET_RATIO = 0.6;
+
+type HistoryMessage = { role: string; content: string };
+
+// 会話メモリ
+export interface ConversationMemory {
+  factSheet: string; // 古い会話から抽出した事実の要約
+  compactedCount: number; // ファクトシートに圧縮済みのメッセージ数（履歴の先頭から）
+}
+
+export const EMPTY_MEMORY: ConversationMemory = {
+  factSheet: '',
+  compactedCount: 0,
+};
+
+// 予算を超えた古い会話をファクトシートに圧縮し、直近の履歴と合わせて返す
+// トークン数は履歴を渡す対話生成のモデルで見積もり、圧縮は会話メモリの設定で行う
+export async function compactConversation(
+  memory: ConversationMemory,
+  history: HistoryMessage[],
+  settings: AISettings = DEFAULT_AI_SETTINGS,
+  signal?: AbortSignal
+): Promise<{ memory: ConversationMemory; recentHistory: HistoryMessage[] }> {
+  const model = settings.respond.model;
+  const pending = history.slice(memory.compactedCount);
+
+  if (countMessageTokens(pending, model) <= HISTORY_TOKEN_BUDGET) {
+    return { memory, recentHistory: pending };
+  }
+
+  const { kept, dropped } = fitToBudget(pending, HISTORY_TOKEN_BUDGET * COMPACT_TARGET_RATIO, model);
+  console.log(`【会話メモリ】${dropped.length}件の古いメッセージをファクトシートに圧縮`);
+
+  const factSheet = await compressConversation(memory.factSheet, dropped, settings.memory, signal);
+  return {
+    memory: {
+      factSheet,
+      compactedCount: memory.compactedCount + dropped.length,
+    },
+    recentHistory: kept,
+  };
+}
+
+// 対話AIに渡すファクトシート（質問ごとの回答 + 圧縮済みの会話）
+export function formatFactSheet(memory: ConversationMemory, answers: Answer[]): string {
+  const sections: string[] = [];
+
+  if (answers.length > 0) {
+    const answerLines = answers.map(a => `- ${a.questionText || a.questionId}: ${a.answer}`);
+    sections.push(`［質問ごとの回答］\n${answerLines.join('\n')}`);
+  }
+  if (memory.factSheet) {
+    sections.push(`［以前の会話から判明した事実］\n${memory.factSheet}`);
+  }
+
+  return sections.join('\n');
+}
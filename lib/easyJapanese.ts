@@ -0,0 +1,74 @@
+// やさしい日本語モード（高齢の方・読み書きが苦手な方向けに、短い文とゆっくりした読み上げで話す）
+import { SpeechVoice } from '@/types';
+
+// 「わからない」などの発言がこの回数に達したら自動的に切り替える
+export const CONFUSION_THRESHOLD = 2;
+
+// 読み上げ速度（通常の日本語は 1.11）
+const EASY_SPEECH_SPEED = 0.85;
+
+// 質問の意味が伝わっていないことを示す発言（「わからない」単体は回答の場合があるため含めない）
+const CONFUSION_PATTERNS: RegExp[] = [
+  /(意味|いみ)が?(よく)?(わから|分から|わかん|分かん)/,
+  /(言って|いって)いる(こと|意味)が?(わから|分から)/,
+  /どういう(意味|いみ|こと)/,
+  /(難しく|むずかしく|むずかし|難し)(て|くて|い|すぎ)/,
+  /(聞き取れ|ききとれ|聞こえ(ない|ません)|きこえ(ない|ません))/,
+  /もう(一|いっ|1)(回|かい|度|ど)(言|い|お願い|おねがい|聞|き)/,
+  /ゆっくり(話|はな|言|い|お願い|おねがい)/,
+  /(何|なん)(て|と)(言|い)(った|いました|ったの)/,
+];
+
+// 質問の意味が伝わっていないことを示す発言か
+export function isConfusionUtterance(text: string): boolean {
+  const normalized = text.normalize('NFKC').replace(/\s+/g, '');
+  return CONFUSION_PATTERNS.some(pattern => pattern.test(normalized));
+}
+
+// ゆっくり読み上げる声
+export function toEasySpeechVoice(voice: SpeechVoice): SpeechVoice {
+  return { ...voice, speed: EASY_SPEECH_SPEED };
+}
+
+// 対話AIへの指示（ふりがな付きの本文を furigana に出力させる）
+export const EASY_JAPANESE_INSTRUCTION = `【やさしい日本語】患者は高齢の方、または難しい日本語が苦手な方です。次のルールで話すこと。
+- 1つの文は短く（20文字くらいまで）、1回に聞くことは1つだけにする
+- 難しい言葉・漢語・医療用語は使わず、ふだんの言葉に言い換える（例: 倦怠感 → からだが だるい、頻度 → どのくらい よく）
+- 敬語は「です・ます」だけにし、「〜でございます」「〜いただけますか」などの難しい言い方はしない
+- 選択肢がある場合は、1つずつ区切ってゆっくり伝える
+- JSONに "furigana" を追加し、replyと同じ文の漢字の後ろに読みがなを《》で付けて書く（例: "今日《きょう》は 体《からだ》の 調子《ちょうし》は どうですか？"）`;
+
+// 自動で切り替えたときの案内
+export const EASY_JAPANESE_SWITCH_MESSAGE = 'わかりにくくて、ごめんなさい。ここからは、ゆっくり、かんたんな ことばで ききますね。';
+
+// ふりがなの区切り（漢字《かんじ》）
+const RUBY_PATTERN = /([\u4E00-\u9FFF々〆ヶ]+)《([^》]+)》/g;
+
+export interface RubySegment {
+  text: string;
+  ruby?: string; // 読みがな（漢字の部分のみ）
+}
+
+// ふりがな付きの文を表示用に分解
+export function parseRuby(text: string): RubySegment[] {
+  const segments: RubySegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(RUBY_PATTERN)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ text: match[1], ruby: match[2] });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+// ふりがなを取り除いた文
+export function stripRuby(text: string): string {
+  return text.replace(RUBY_PATTERN, '$1');
+}
@@ -0,0 +1,20 @@
+// ハンズフリーの音声対話（読み上げが終わるたびに自動で聞き取りを再開する）
+import { InterviewLanguage } from '@/types';
+import { LANGUAGES, joinSentences } from '@/lib/languages';
+
+// 発話がないまま質問を読み上げ直すまでの時間（ミリ秒）
+export const HANDS_FREE_SILENCE_MS = 20000;
+
+// 無音の時間を確かめる間隔（ミリ秒）
+export const HANDS_FREE_SILENCE_CHECK_MS = 1000;
+
+// 続けて読み上げ直す回数の上限（超えた場合は患者が離れたとみなし、自動の聞き取りを終了）
+export const HANDS_FREE_MAX_REPROMPTS = 2;
+
+// 音声認識が止まってから再開するまでの間（ミリ秒、認識の終了処理を待つ）
+export const HANDS_FREE_RESTART_DELAY_MS = 300;
+
+// 発話がない場合に質問を読み上げ直す定型文（questionText は患者の言語で尋ねた質問、分からない場合は空文字で案内のみ）
+export function formatSilenceReprompt(language: InterviewLanguage, questionText: string): string {
+  return joinSentences(language, LANGUAGES[language].silenceReprompt, questionText);
+}
@@ -0,0 +1,141 @@
+// 患者の入力のガード（AIへの指示の書き換えや問診と無関係な依頼を、LLMに渡す前に検出する）
+import { InputGuardAlert, InputGuardCategory, InterviewLanguage } from '@/types';
+import { LANGUAGES, joinSentences } from '@/lib/languages';
+
+export const INPUT_GUARD_LABELS: Record<InputGuardCategory, string> = {
+  injection: '指示の書き換え',
+  offTopic: '問診と無関係な依頼',
+};
+
+// 依頼・命令の言い切り（文末または読点の前）
+// 「レポートを書いていて」「先生の指示を無視してしまった」など、患者自身の話と区別する
+const REQUEST_END = '(ください|下さい|くれ|くれる|くれない|くれますか|くれませんか|もらえる|もらえますか|ね|よ)?(?=[、,。.!！?？]|$)';
+// 指示を取り消させる命令（文末で言い切るものに限る。「指示を忘れて、困っています」は患者の話）
+const DISCARD_COMMAND =
+  '((無視|破棄|リセット|解除)(して|しろ|せよ|しなさい)|忘れ(て|ろ|なさい))(ください|下さい|くれ|ね|よ)?(?=[。.!！]|$)';
+// 取り消させる対象（AIへの指示・設定。「前の会話を忘れて」などは対象外）
+const INSTRUCTION_OBJECT = '(指示|命令|設定|ルール|プロンプト|制約)';
+
+interface GuardPatterns {
+  injection: RegExp[]; // AIへの指示を書き換えようとする発言
+  offTopic: RegExp[]; // 問診と明らかに関係のない依頼
+  symptomHint: RegExp; // 症状を話している様子（無関係な依頼が混ざっていても、症状を伝える発言は問診として扱う）
+}
+
+// 言語ごとの表現（問診の言語によらず、すべての言語の表現で照合する）
+// 英語・ベトナム語などの役割の指定は、発言の途中（「胸が痛い、act as…」）では判定しないように文頭に限る
+const GUARD_PATTERNS: Record<InterviewLanguage, GuardPatterns> = {
+  ja: {
+    injection: [
+      new RegExp(`(これまで|今まで|以前|前|上記|上|最初)の${INSTRUCTION_OBJECT}を?(すべて|全部)?${DISCARD_COMMAND}`),
+      new RegExp(`${INSTRUCTION_OBJECT}を?(すべて|全部)?${DISCARD_COMMAND}`),
+      /システムプロンプト/,
+      // 「先生の指示内容を教えて」は患者の質問のため、AI自身の指示・設定を尋ねるものに限る
+      /(プロンプト|(あなた|きみ|君|ai|システム)の(指示|命令|設定|ルール)(内容)?)(を|の内容を)?(教えて|表示|見せて|出力)/,
+      /あなたは(今から|これから).{0,20}(として|になって|のふりをして)|(として|になりきって)(振る舞|ふるま|演じ)|になりきって/,
+      /開発者モード|脱獄/,
+      /(要約|サマリー|記録|カルテ|問診票)(に|には|を).{0,20}(と書いて|と記録して|と記載して|書き換え|改ざん)/,
+    ],
+    offTopic: [
+      new RegExp(`(天気|天気予報|株価|為替|ニュース|試合の結果|レシピ|献立)(を|について)?(教えて|調べて)${REQUEST_END}`),
+      new RegExp(`(小説|詩|歌詞|作文|レポート|宿題|メール|プログラム|コード)(を|の)?(書いて|作って|作成して|考えて|解いて)${REQUEST_END}`),
+      new RegExp(`(ジョーク|冗談|なぞなぞ|クイズ|面白い話)(を|でも)?(言って|教えて|出して|して)${REQUEST_END}`),
+      new RegExp(`(歌|うた)を?(歌って|うたって)${REQUEST_END}`),
+    ],
+    symptomHint: /痛|熱|咳|せき|だる|吐|下痢|かゆ|痒|しびれ|めまい|息苦し|腫れ|出血|寝不足|眠れ|気分が悪|具合|症状/,
+  },
+  en: {
+    injection: [
+      /\b(ignore|forget)\s+(all\s+|any\s+)?(the\s+|your\s+)?(previous|prior|above|earlier)\s+(instructions|prompts?|rules)/,
+      /\bdisregard\s+(all\s+|the\s+|your\s+)?(previous|prior|above)\s+(instructions|prompts?|rules)/,
+      /system\s*prompt|developer\s*mode|jailbreak/,
+      /(^|[.!?]\s)(you\s+are\s+now\s+(an?\s+)?[a-z]|act\s+as\s+(an?\s+)?[a-z]|pretend\s+(to\s+be|you\s+are)\b)/,
+      /"(reply|emotion|needmoreinfo|iscomplete|answers|summary)"\s*:/,
+      /<\/?(system|assistant|instructions?)>|\[\/?(inst|sys)\]/,
+    ],
+    offTopic: [
+      /\b(write|tell)\s+(me\s+)?(a\s+|an\s+|some\s+)?(poem|story|joke|code|essay|song)\b/,
+      /\bwhat('?s|\s+is)\s+the\s+weather\b/,
+    ],
+    symptomHint: /\b(pain|hurts?|ache|fever|cough|dizzy|nause|vomit|bleed)/,
+  },
+  zh: {
+    injection: [
+      /(忽略|无视|忘记|忘掉)(之前|以上|上面|前面)?(的)?(所有)?(的)?(指令|指示|提示词|规则|设定)/,
+      /系统提示词|开发者模式|越狱/,
+      /(从现在开始|现在起)你(是|扮演)|(扮演|假装)(你是|成为?)/,
+    ],
+    offTopic: [
+      /(讲|说|告诉我)(一个|几个|个)?(笑话|故事)/,
+      /(写|作)(一首|一篇|一段)?(诗|小说|作文|代码|程序)/,
+      /(天气|股价|汇率|新闻)(怎么样|如何|是什么)/,
+    ],
+    symptomHint: /痛|疼|发烧|咳嗽|头晕|恶心|呕吐|腹泻|出血|不舒服/,
+  },
+  vi: {
+    injection: [
+      /(^|[.!?]\s)(hãy\s)?(bỏ qua|quên|phớt lờ)(\sđi)?\s(tất cả\s|mọi\s)?(các\s)?(chỉ dẫn|hướng dẫn|chỉ thị|quy tắc)/,
+      /chế độ nhà phát triển/,
+      /(^|[.!?]\s)(từ bây giờ,?\s)?bạn là\s|(^|[.!?]\s)(hãy\s)?(đóng vai|giả vờ là)\s/,
+    ],
+    offTopic: [
+      /(kể|nói)(\scho tôi)?(\snghe)?\s(một\s)?(chuyện cười|câu chuyện)/,
+      /(viết|làm)(\scho tôi)?\s(một\s)?(bài thơ|truyện|bài luận|đoạn code|bài văn)/,
+      /thời tiết(\shôm nay)?\s(thế nào|ra sao)/,
+    ],
+    symptomHint: /đau|sốt|\bho\b|chóng mặt|buồn nôn|\bnôn|tiêu chảy|chảy máu|mệt/,
+  },
+  ko: {
+    injection: [
+      /(이전|앞|위|지금까지)의?(모든)?(지시|명령|설정|규칙|프롬프트)(를|을)?(모두)?(무시|잊어)/,
+      /시스템프롬프트|개발자모드|탈옥/,
+      /(지금부터|이제부터)(너는|당신은)|(역할|연기)을?해(줘|주세요)/,
+    ],
+    offTopic: [
+      /(농담|재미있는이야기|수수께끼)(을|를|좀)?(해|말해|들려)(줘|주세요)/,
+      /(시|소설|작문|숙제|코드|프로그램)(을|를|좀)?(써|작성해|만들어)(줘|주세요)/,
+      /(날씨|주가|환율|뉴스)(를|좀)?(알려|가르쳐)(줘|주세요)/,
+    ],
+    symptomHint: /아프|아파|통증|열이|기침|어지러|메스꺼|구토|설사|출혈/,
+  },
+};
+
+const ALL_PATTERNS = Object.values(GUARD_PATTERNS);
+
+// 日本語などの表現は空白を除いて、英語などの表現は単語の区切りを残して照合する
+function normalizeForms(text: string): string[] {
+  const normalized = text.normalize('NFKC').toLowerCase();
+  return [normalized.replace(/\s+/g, ''), normalized.replace(/\s+/g, ' ')];
+}
+
+// 入力を判定（問題がなければ null）
+export function checkPatientInput(message: string): InputGuardAlert | null {
+  const forms = normalizeForms(message);
+  const categories: [InputGuardCategory, RegExp[]][] = [
+    ['injection', ALL_PATTERNS.flatMap(patterns => patterns.injection)],
+    ['offTopic', ALL_PATTERNS.flatMap(patterns => patterns.offTopic)],
+  ];
+
+  const mentionsSymptom = forms.some(form => ALL_PATTERNS.some(patterns => patterns.symptomHint.test(form)));
+
+  for (const [category, patterns] of categories) {
+    if (category === 'offTopic' && mentionsSymptom) continue;
+    for (const pattern of patterns) {
+      const match = forms.map(form => form.match(pattern)).find(Boolean);
+      if (match) {
+        return {
+          category,
+          matchedText: match[0],
+          message,
+          detectedAt: Date.now(),
+        };
+      }
+    }
+  }
+  return null;
+}
+
+// 現在の質問に話を戻す定型文（questionText は患者の言語で尋ねた質問、分からない場合は空文字で案内のみ）
+export function formatGuardReply(language: InterviewLanguage, questionText: string): string {
+  return joinSentences(language, LANGUAGES[language].guardReply, questionText);
+}
@@ -0,0 +1,182 @@
+// 問診の対応言語（音声認識・対話・読み上げを患者の言語に合わせる）
+// スタッフ向けの記録（formattedAnswers・summary）は常に日本語で作成する
+import { InterviewLanguage, SpeechVoice } from '@/types';
+
+// スクリプト問診（AIを使わない形式）の定型文（{options} は選択肢の列挙に置き換える）
+// 質問文・選択肢は文診表のまま（日本語）読み上げる
+export interface ScriptedMessages {
+  intro: string;
+  switchNotice: string; // AI問診から切り替えたときの案内
+  next: string;
+  complete: string;
+  retry: string; // 回答が選択肢・数値に当てはまらない場合
+  scaleInstruction: string;
+  choiceInstruction: string;
+  multiChoiceInstruction: string;
+}
+
+export interface LanguageConfig {
+  label: string; // 選択画面の表示名（その言語での表記）
+  promptName: string; // プロンプト・管理画面での言語名
+  locale: string; // 音声認識・Web Speech APIのロケール
+  voice: Pick<SpeechVoice, 'voice' | 'speed'>; // 既定の声（音声設定で上書き可能）
+  welcomeMessage: string;
+  fallbackReply: string; // AI応答に失敗した場合の定型文
+  guardReply: string; // 問診と無関係な依頼・指示の書き換えに対する定型文
+  silenceReprompt: string; // ハンズフリーで発話がないまま時間が経過した場合の定型文
+  reask: string; // 質問が伝わらなかった場合に聞き直す前置き
+  resumeMessage: string; // スタッフの確認後に問診を再開するときの定型文
+  escalationMessage: string; // レッドフラグ検出時の案内（日本語は管理画面で文診表ごとに設定可能）
+  sentenceSeparator: string; // 定型文と質問文をつなぐ区切り（日本語・中国語は空白なし）
+  scripted: ScriptedMessages;
+}
+
+export const DEFAULT_LANGUAGE: InterviewLanguage = 'ja';
+
+export const LANGUAGES: Record<InterviewLanguage, LanguageConfig> = {
+  ja: {
+    label: '日本語',
+    promptName: '日本語',
+    locale: 'ja-JP',
+    voice: { voice: 'nova', speed: 1.11 },
+    welcomeMessage: 'こんにちは。本日の問診を担当いたします。よろしくお願いします。',
+    fallbackReply: '申し訳ございません。通信エラーが発生しました。もう一度お願いできますか？',
+    guardReply: '申し訳ございません。問診に関係のないご依頼にはお答えできません。問診に戻りますね。',
+    silenceReprompt: 'お声が聞き取れませんでした。もう一度お伺いします。',
+    reask: 'もう一度お聞きしますね。',
+    resumeMessage: 'お待たせしました。問診を再開します。',
+    escalationMessage:
+      '大切なことを教えていただき、ありがとうございます。すぐに対応が必要な可能性があります。問診をいったん中断しますので、お近くのスタッフにお声がけください。スタッフが参りますので、そのままお待ちください。',
+    sentenceSeparator: '',
+    scripted: {
+      intro: 'これから質問を順番に読み上げますので、お答えください。',
+      switchNotice: '申し訳ございません。AIとの通信に問題が発生しているため、ここからは質問を順番に読み上げる形式で進めます。',
+      next: 'ありがとうございます。次の質問です。',
+      complete: 'ありがとうございます。以上で問診は終了です。',
+      retry: '恐れ入ります。',
+      scaleInstruction: '0から10の数字でお答えください。',
+      choiceInstruction: '{options}のいずれかでお答えください。',
+      multiChoiceInstruction: '{options}の中から、当てはまるものをすべてお答えください。',
+    },
+  },
+  en: {
+    label: 'English',
+    promptName: '英語',
+    locale: 'en-US',
+    voice: { voice: 'nova', speed: 1.0 },
+    welcomeMessage: "Hello. I'll be asking you a few questions before your consultation today.",
+    fallbackReply: "I'm sorry, a connection error occurred. Could you say that again?",
+    guardReply: "I'm sorry, I can only help with your medical questionnaire. Let's go back to the current question.",
+    silenceReprompt: "I didn't hear a response. Please answer whenever you're ready.",
+    reask: 'Let me ask that again.',
+    resumeMessage: "Thank you for waiting. Let's continue with the questionnaire.",
+    escalationMessage:
+      "Thank you for telling me. This may need immediate attention. I'm pausing the questionnaire now, so please let a nearby staff member know. Someone will be with you shortly, so please wait here.",
+    sentenceSeparator: ' ',
+    scripted: {
+      intro: "I'll read the questions one by one. Please answer each one.",
+      switchNotice: "I'm sorry, we're having trouble connecting to the AI, so from here I'll read the questions one by one.",
+      next: 'Thank you. Next question.',
+      complete: 'Thank you. That completes the questionnaire.',
+      retry: "I'm sorry.",
+      scaleInstruction: 'Please answer with a number from 0 to 10.',
+      choiceInstruction: 'Please answer with one of these: {options}.',
+      multiChoiceInstruction: 'Please answer with all that apply: {options}.',
+    },
+  },
+  zh: {
+    label: '中文',
+    promptName: '中国語（簡体字）',
+    locale: 'zh-CN',
+    voice: { voice: 'shimmer', speed: 1.0 },
+    welcomeMessage: '您好。今天由我为您进行问诊，请多关照。',
+    fallbackReply: '非常抱歉，发生了通信错误。请您再说一遍好吗？',
+    guardReply: '非常抱歉，我只能协助您完成问诊。我们回到当前的问题吧。',
+    silenceReprompt: '没有听到您的回答。准备好后请随时回答。',
+    reask: '我再问一遍。',
+    resumeMessage: '让您久等了。我们继续问诊。',
+    escalationMessage: '感谢您告诉我这些。这可能需要立即处理。问诊暂时中断，请告知附近的工作人员。工作人员马上就来，请在原地稍候。',
+    sentenceSeparator: '',
+    scripted: {
+      intro: '接下来我会依次读出问题，请您回答。',
+      switchNotice: '非常抱歉，由于与AI的通信出现问题，接下来将以依次读出问题的方式进行。',
+      next: '谢谢。下一个问题。',
+      complete: '谢谢。问诊到此结束。',
+      retry: '不好意思。',
+      scaleInstruction: '请用0到10的数字回答。',
+      choiceInstruction: '请从{options}中选择一项回答。',
+      multiChoiceInstruction: '请从{options}中选择所有符合的选项回答。',
+    },
+  },
+  vi: {
+    label: 'Tiếng Việt',
+    promptName: 'ベトナム語',
+    locale: 'vi-VN',
+    voice: { voice: 'shimmer', speed: 1.0 },
+    welcomeMessage: 'Xin chào. Hôm nay tôi sẽ hỏi bạn một vài câu hỏi trước khi khám bệnh.',
+    fallbackReply: 'Xin lỗi, đã xảy ra lỗi kết nối. Bạn có thể nói lại được không?',
+    guardReply: 'Xin lỗi, tôi chỉ có thể hỗ trợ phần hỏi bệnh. Chúng ta hãy quay lại câu hỏi hiện tại nhé.',
+    silenceReprompt: 'Tôi chưa nghe thấy câu trả lời. Khi sẵn sàng, bạn hãy trả lời nhé.',
+    reask: 'Tôi xin hỏi lại nhé.',
+    resumeMessage: 'Cảm ơn bạn đã chờ. Chúng ta tiếp tục phần hỏi bệnh nhé.',
+    escalationMessage:
+      'Cảm ơn bạn đã cho tôi biết. Tình trạng này có thể cần được xử lý ngay. Tôi sẽ tạm dừng phần hỏi bệnh, bạn hãy báo cho nhân viên ở gần. Nhân viên sẽ đến ngay, xin vui lòng chờ tại đây.',
+    sentenceSeparator: ' ',
+    scripted: {
+      intro: 'Tôi sẽ lần lượt đọc từng câu hỏi, bạn hãy trả lời nhé.',
+      switchNotice: 'Xin lỗi, do kết nối với AI đang gặp sự cố nên từ đây tôi sẽ lần lượt đọc từng câu hỏi.',
+      next: 'Cảm ơn bạn. Câu hỏi tiếp theo.',
+      complete: 'Cảm ơn bạn. Phần hỏi bệnh đã kết thúc.',
+      retry: 'Xin lỗi.',
+      scaleInstruction: 'Vui lòng trả lời bằng một số từ 0 đến 10.',
+      choiceInstruction: 'Vui lòng chọn một trong các lựa chọn: {options}.',
+      multiChoiceInstruction: 'Vui lòng chọn tất cả các lựa chọn phù hợp: {options}.',
+    },
+  },
+  ko: {
+    label: '한국어',
+    promptName: '韓国語',
+    locale: 'ko-KR',
+    voice: { voice: 'nova', speed: 1.0 },
+    welcomeMessage: '안녕하세요. 오늘 문진을 담당하겠습니다. 잘 부탁드립니다.',
+    fallbackReply: '죄송합니다. 통신 오류가 발생했습니다. 다시 한번 말씀해 주시겠어요?',
+    guardReply: '죄송합니다. 문진과 관계없는 요청에는 답변드릴 수 없습니다. 현재 질문으로 돌아가겠습니다.',
+    silenceReprompt: '답변이 들리지 않았습니다. 준비되시면 말씀해 주세요.',
+    reask: '다시 한번 여쭤보겠습니다.',
+    resumeMessage: '기다려 주셔서 감사합니다. 문진을 다시 시작하겠습니다.',
+    escalationMessage:
+      '말씀해 주셔서 감사합니다. 즉시 대응이 필요할 수 있습니다. 문진을 잠시 중단하겠으니 가까운 직원에게 말씀해 주세요. 직원이 곧 올 테니 그대로 기다려 주세요.',
+    sentenceSeparator: ' ',
+    scripted: {
+      intro: '지금부터 질문을 차례대로 읽어 드릴 테니 대답해 주세요.',
+      switchNotice: '죄송합니다. AI와의 통신에 문제가 발생하여 지금부터는 질문을 차례대로 읽어 드리는 방식으로 진행하겠습니다.',
+      next: '감사합니다. 다음 질문입니다.',
+      complete: '감사합니다. 이것으로 문진을 마치겠습니다.',
+      retry: '죄송합니다.',
+      scaleInstruction: '0부터 10까지의 숫자로 대답해 주세요.',
+      choiceInstruction: '{options} 중에서 하나를 골라 대답해 주세요.',
+      multiChoiceInstruction: '{options} 중에서 해당하는 것을 모두 대답해 주세요.',
+    },
+  },
+};
+
+export const INTERVIEW_LANGUAGES = Object.keys(LANGUAGES) as InterviewLanguage[];
+
+// 定型文と質問文などをその言語の区切りでつなぐ（空の部分は除く）
+export function joinSentences(language: InterviewLanguage, ...parts: string[]): string {
+  return parts.filter(Boolean).join(LANGUAGES[language].sentenceSeparator);
+}
+
+// 対話AIへの言語指示（質問文は日本語のため翻訳して尋ねさせる）
+export function formatDialogLanguageInstruction(language: InterviewLanguage): string {
+  if (language === DEFAULT_LANGUAGE) return '';
+  const { promptName } = LANGUAGES[language];
+  return `【使用言語】この問診は${promptName}で行う。現在の質問は日本語で書かれているため${promptName}に翻訳して尋ね、replyは必ず${promptName}で書くこと。`;
+}
+
+// 回答分析・要約への言語指示（記録は日本語、根拠は原文のまま）
+export function formatRecordLanguageInstruction(language: InterviewLanguage): string {
+  if (language === DEFAULT_LANGUAGE) return '';
+  const { promptName } = LANGUAGES[language];
+  return `【使用言語】患者は${promptName}で回答している。スタッフ向けの記録（value・extractedAnswer・summary・symptoms）は必ず日本語に翻訳して記述し、evidenceは患者の発言を原文のまま抜き出すこと。`;
+}
@@ -0,0 +1,255 @@
+// アバターの口の動き（リップシンク）
+// 音声データの再生はWeb AudioのAnalyserNodeで音量と周波数の特徴から、
+// 音声を取り出せないブラウザの音声合成は読み上げる文のかなから母音のタイミングを推定する
+
+// VRMの口の形（あ・い・う・え・お）
+export type Viseme = 'aa' | 'ih' | 'ou' | 'ee' | 'oh';
+export type VisemeWeights = Record<Viseme, number>;
+
+export const VISEMES: Viseme[] = ['aa', 'ih', 'ou', 'ee', 'oh'];
+
+export const CLOSED_MOUTH: VisemeWeights = { aa: 0, ih: 0, ou: 0, ee: 0, oh: 0 };
+
+// 再生中の音声・読み上げとの対応（停止時に口を閉じる）
+export interface LipSyncHandle {
+  stop(): void;
+  syncToChar?(charIndex: number): void; // 読み上げ位置に合わせる（ブラウザの音声合成のみ）
+}
+
+// ===== 音声データの解析 =====
+
+const FFT_SIZE = 1024;
+// これより小さい音量は無音とみなす（RMS）
+const NOISE_FLOOR = 0.01;
+// 音量から口の開きへの倍率
+const VOLUME_GAIN = 6;
+
+// 周波数帯（Hz）: 第1フォルマントの低い帯・高い帯、第2フォルマントの高い帯
+const LOW_BAND: [number, number] = [200, 700];
+const MID_BAND: [number, number] = [700, 1200];
+const HIGH_BAND: [number, number] = [1800, 3200];
+
+interface AudioSource {
+  kind: 'audio';
+  analyser: AnalyserNode;
+  frequency: Float32Array<ArrayBuffer>;
+  waveform: Float32Array<ArrayBuffer>;
+}
+
+// ===== 文からの推定 =====
+
+// 1モーラ（かな1文字）の長さ（ミリ秒、速度1.0のとき）
+const MORA_MS = 140;
+// 句読点・空白での間（ミリ秒）
+const COMMA_PAUSE_MS = 250;
+const PERIOD_PAUSE_MS = 400;
+const SPACE_PAUSE_MS = 80;
+// 読みのわからない漢字・数字は1文字を2モーラとみなす
+const KANJI_MORAE = 2;
+
+interface VisemeSegment {
+  viseme: Viseme | null; // null は口を閉じる（ん・っ・間）
+  start: number;
+  end: number;
+  charIndex: number;
+}
+
+interface TextSource {
+  kind: 'text';
+  timeline: VisemeSegment[];
+  startedAt: number;
+}
+
+// 母音ごとのかな（ひらがなに変換して照合）
+const KANA_VOWELS: [Viseme, string][] = [
+  ['aa', 'あかさたなはまやらわがざだばぱぁゃゎ'],
+  ['ih', 'いきしちにひみりぎじぢびぴぃ'],
+  ['ou', 'うくすつぬふむゆるぐずづぶぷぅゅゔ'],
+  ['ee', 'えけせてねへめれげぜでべぺぇ'],
+  ['oh', 'おこそとのほもよろをごぞどぼぽぉょ'],
+];
+const KANA_TO_VISEME = new Map<string, Viseme>(
+  KANA_VOWELS.flatMap(([viseme, kana]) => [...kana].map(c => [c, viseme] as [string, Viseme]))
+);
+// 直前の文字と合わせて1モーラになる小書きのかな（きゃ・しゅ など）
+const SMALL_KANA = 'ぁぃぅぇぉゃゅょゎ';
+
+const LATIN_VOWELS: Record<string, Viseme> = { a: 'aa', i: 'ih', u: 'ou', e: 'ee', o: 'oh', y: 'ih' };
+
+let audioContext: AudioContext | null = null;
+let activeSource: AudioSource | TextSource | null = null;
+
+// カタカナをひらがなに変換
+function toHiragana(char: string): string {
+  const code = char.charCodeAt(0);
+  return code >= 0x30A1 && code <= 0x30F6 ? String.fromCharCode(code - 0x60) : char;
+}
+
+// 読み上げる文から母音のタイムラインを推定
+export function estimateVisemeTimeline(text: string, rate = 1): VisemeSegment[] {
+  const mora = MORA_MS / Math.max(0.1, rate);
+  const timeline: VisemeSegment[] = [];
+  let time = 0;
+
+  const push = (viseme: Viseme | null, duration: number, charIndex: number) => {
+    timeline.push({ viseme, start: time, end: time + duration, charIndex });
+    time += duration;
+  };
+
+  [...text].forEach((raw, charIndex) => {
+    const char = toHiragana(raw.normalize('NFKC').toLowerCase());
+    const previous = timeline[timeline.length - 1];
+
+    if (SMALL_KANA.includes(char) && previous?.viseme) {
+      // 拗音は直前のモーラの母音を置き換える
+      previous.viseme = KANA_TO_VISEME.get(char) || previous.viseme;
+    } else if (KANA_TO_VISEME.has(char)) {
+      push(KANA_TO_VISEME.get(char)!, mora, charIndex);
+    } else if (char === 'ー') {
+      push(previous?.viseme || null, mora, charIndex);
+    } else if (char === 'ん' || char === 'っ') {
+      push(null, mora, charIndex);
+    } else if (/[一-鿿々0-9]/.test(char)) {
+      // 読みがわからないため、文字コードから母音を割り当てる
+      for (let i = 0; i < KANJI_MORAE; i++) {
+        push(VISEMES[(char.charCodeAt(0) + i) % VISEMES.length], mora, charIndex);
+      }
+    } else if (LATIN_VOWELS[char]) {
+      push(LATIN_VOWELS[char], mora * 0.8, charIndex);
+    } else if (/[、,，]/.test(char)) {
+      push(null, COMMA_PAUSE_MS / rate, charIndex);
+    } else if (/[。.!?！？\n]/.test(char)) {
+      push(null, PERIOD_PAUSE_MS / rate, charIndex);
+    } else if (/\s/.test(char)) {
+      push(null, SPACE_PAUSE_MS / rate, charIndex);
+    }
+  });
+
+  return timeline;
+}
+
+// 音声データの再生をAnalyserNodeに通す（AudioContextが使えない場合は null）
+// 初回はユーザー操作前のことがあるため、AudioContextが動作していなければ再開だけ依頼して null を返す
+export function startAudioLipSync(audio: HTMLAudioElement): LipSyncHandle | null {
+  if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return null;
+
+  try {
+    audioContext ??= new AudioContext();
+    if (audioContext.state !== 'running') {
+      void audioContext.resume();
+      return null;
+    }
+
+    const mediaSource = audioContext.createMediaElementSource(audio);
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    analyser.smoothingTimeConstant = 0.5;
+    mediaSource.connect(analyser);
+    analyser.connect(audioContext.destination);
+
+    const source: AudioSource = {
+      kind: 'audio',
+      analyser,
+      frequency: new Float32Array(analyser.frequencyBinCount),
+      waveform: new Float32Array(analyser.fftSize),
+    };
+    activeSource = source;
+
+    return {
+      stop() {
+        mediaSource.disconnect();
+        analyser.disconnect();
+        if (activeSource === source) activeSource = null;
+      },
+    };
+  } catch (error) {
+    console.warn('リップシンク用の音声解析を開始できません:', error);
+    return null;
+  }
+}
+
+// 文から推定したタイミングで口を動かす
+// durationMs を指定した場合は、推定した長さを再生時間に合わせて伸縮する
+export function startTextLipSync(text: string, { rate = 1, durationMs }: { rate?: number; durationMs?: number } = {}): LipSyncHandle {
+  let timeline = estimateVisemeTimeline(text, rate);
+  const estimated = timeline[timeline.length - 1]?.end || 0;
+  if (durationMs && Number.isFinite(durationMs) && estimated > 0) {
+    const scale = durationMs / estimated;
+    timeline = timeline.map(segment => ({ ...segment, start: segment.start * scale, end: segment.end * scale }));
+  }
+
+  const source: TextSource = { kind: 'text', timeline, startedAt: performance.now() };
+  activeSource = source;
+
+  return {
+    stop() {
+      if (activeSource === source) activeSource = null;
+    },
+    syncToChar(charIndex) {
+      const segment = source.timeline.find(s => s.charIndex >= charIndex);
+      if (segment) {
+        source.startedAt = performance.now() - segment.start;
+      }
+    },
+  };
+}
+
+// 周波数帯の平均パワー
+function bandPower(frequency: Float32Array, [low, high]: [number, number], binHz: number): number {
+  const from = Math.max(0, Math.floor(low / binHz));
+  const to = Math.min(frequency.length - 1, Math.ceil(high / binHz));
+  let sum = 0;
+  for (let i = from; i <= to; i++) {
+    sum += 10 ** (frequency[i] / 10); // dB → パワー
+  }
+  return sum / Math.max(1, to - from + 1);
+}
+
+// 音量と周波数の特徴から母音の重みを推定
+// あ: 第1フォルマントが高い / い: 低い第1・高い第2 / う: 低い第1のみ / え: 中程度の第1・高い第2 / お: 低〜中程度の第1
+function analyzeAudio({ analyser, frequency, waveform }: AudioSource): VisemeWeights {
+  analyser.getFloatTimeDomainData(waveform);
+  const rms = Math.sqrt(waveform.reduce((sum, v) => sum + v * v, 0) / waveform.length);
+  const openness = Math.min(1, Math.max(0, (rms - NOISE_FLOOR) * VOLUME_GAIN));
+  if (openness === 0) return CLOSED_MOUTH;
+
+  analyser.getFloatFrequencyData(frequency);
+  const binHz = analyser.context.sampleRate / analyser.fftSize;
+  const low = bandPower(frequency, LOW_BAND, binHz);
+  const mid = bandPower(frequency, MID_BAND, binHz);
+  const high = bandPower(frequency, HIGH_BAND, binHz);
+  const total = low + mid + high || 1;
+  const [l, m, h] = [low / total, mid / total, high / total];
+
+  const scores: VisemeWeights = {
+    aa: m * (1 - h),
+    ih: l * h,
+    ou: l * (1 - m) * (1 - h),
+    ee: m * h,
+    oh: l * m,
+  };
+  // 最も強い母音が目立つように強調してから正規化
+  const sharpened = VISEMES.map(v => scores[v] ** 2);
+  const sum = sharpened.reduce((a, b) => a + b, 0) || 1;
+
+  return VISEMES.reduce((weights, viseme, i) => {
+    weights[viseme] = (sharpened[i] / sum) * openness;
+    return weights;
+  }, {} as VisemeWeights);
+}
+
+// 文のタイムラインから現在の母音（モーラの中ほどで最も大きく開く）
+function sampleTimeline({ timeline, startedAt }: TextSource): VisemeWeights {
+  const elapsed = performance.now() - startedAt;
+  const segment = timeline.find(s => elapsed >= s.start && elapsed < s.end);
+  if (!segment?.viseme) return CLOSED_MOUTH;
+
+  const progress = (elapsed - segment.start) / (segment.end - segment.start);
+  return { ...CLOSED_MOUTH, [segment.viseme]: 0.2 + 0.8 * Math.sin(Math.PI * progress) };
+}
+
+// 現在の口の形（アバターが毎フレーム取得）
+export function getLipSyncFrame(): VisemeWeights {
+  if (!activeSource) return CLOSED_MOUTH;
+  return activeSource.kind === 'audio' ? analyzeAudio(activeSource) : sampleTimeline(activeSource);
+}
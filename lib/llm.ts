@@ -0,0 +1,253 @@
+import { createMockProvider } from '@/lib/llmMock';
+import { HttpError, parseRetryAfter, withTimeout } from '@/lib/request';
+
+// LLM呼び出しの段階（分析・対話・要約・会話メモリ圧縮）
+export type LLMStage = 'analyze' | 'respond' | 'summary' | 'memory' | 'redflag';
+
+// 使用モデル
+export const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// 各段階からプロバイダーへのリクエスト
+export interface LLMRequest {
+  stage: LLMStage;
+  messages: LLMMessage[];
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  jsonMode?: boolean;
+  timeoutMs?: number; // 超過した場合はリクエストを中断
+  signal?: AbortSignal; // 呼び出し元による中断（新しいメッセージの送信など）
+}
+
+export interface LLMCompletion {
+  text: string;
+  finishReason?: string;
+}
+
+// 分析・対話・要約のすべての段階が経由するプロバイダー
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  // 生成されたテキストを逐次 onDelta に渡し、完了時に全文を返す
+  stream(request: LLMRequest, onDelta: (delta: string) => void): Promise<LLMCompletion>;
+}
+
+// HTTPエラー（ステータスでリトライ可否を判定するため保持）
+export class LLMHttpError extends HttpError {
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(status, message, retryAfterMs);
+    this.name = 'LLMHttpError';
+  }
+}
+
+// 応答構造が不正（リトライ対象）
+export class LLMInvalidResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMInvalidResponseError';
+  }
+}
+
+interface ChatCompletionData {
+  choices?: {
+    message?: { content?: string | null };
+    finish_reason?: string;
+  }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: {
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+}
+
+// OpenAI互換のチャット補完APIへリクエストを送信
+async function sendChatCompletion(
+  url: string,
+  request: LLMRequest,
+  headers: Record<string, string>,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+    body: JSON.stringify({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    console.error('LLM API error:', {
+      status: response.status,
+      statusText: response.statusText,
+      errorData,
+    });
+    throw new LLMHttpError(
+      response.status,
+      `LLM API error: ${response.status} - ${response.statusText}`,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+
+  return response;
+}
+
+// OpenAI互換のチャット補完APIを呼び出す共通処理
+async function postChatCompletion(
+  url: string,
+  request: LLMRequest,
+  headers: Record<string, string>
+): Promise<LLMCompletion> {
+  return withTimeout(request.timeoutMs, request.signal, async (signal) => {
+    const response = await sendChatCompletion(url, request, headers, false, signal);
+    const data: ChatCompletionData = await response.json();
+
+    // 応答構造の検証
+    const choice = data.choices?.[0];
+    if (!choice || !choice.message) {
+      console.error('LLM API 応答構造が正しくありません:', data);
+      throw new LLMInvalidResponseError('Invalid API response structure');
+    }
+
+    return {
+      text: choice.message.content || '',
+      finishReason: choice.finish_reason,
+    };
+  });
+}
+
+// ストリーミング（SSE）でチャット補完APIを呼び出す共通処理
+async function streamChatCompletion(
+  url: string,
+  request: LLMRequest,
+  headers: Record<string, string>,
+  onDelta: (delta: string) => void
+): Promise<LLMCompletion> {
+  return withTimeout(request.timeoutMs, request.signal, async (signal) => {
+    const response = await sendChatCompletion(url, request, headers, true, signal);
+    if (!response.body) {
+      throw new LLMInvalidResponseError('Empty stream body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let finishReason: string | undefined;
+
+    // "data: {...}" 行を1行ずつ処理
+    const handleLine = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) return;
+
+      const payload = trimmed.slice(5).trim();
+      if (!payload || payload === '[DONE]') return;
+
+      try {
+        const chunk: ChatCompletionChunk = JSON.parse(payload);
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+      } catch (e) {
+        console.warn('ストリームのチャンク解析に失敗:', payload, e);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+
+    return { text, finishReason };
+  });
+}
+
+// サーバー側プロキシ（/api/analyze 等）経由でOpenAIを呼び出す（デフォルト）
+export function createProxyProvider(): LLMProvider {
+  return {
+    name: 'proxy',
+    complete: (request) => postChatCompletion(`/api/${request.stage}`, request, {}),
+    stream: (request, onDelta) => streamChatCompletion(`/api/${request.stage}`, request, {}, onDelta),
+  };
+}
+
+interface OpenAICompatibleOptions {
+  baseUrl: string;
+  apiKey?: string;
+  model?: string; // 指定時はリクエストのモデル名を上書き（例: llama3.1）
+}
+
+// OpenAI互換エンドポイント（ローカルのOllamaやllama.cppサーバー等）を直接呼び出す
+export function createOpenAICompatibleProvider({ baseUrl, apiKey, model }: OpenAICompatibleOptions): LLMProvider {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const withModel = (request: LLMRequest): LLMRequest => ({ ...request, model: model || request.model });
+
+  return {
+    name: 'openai-compatible',
+    complete: (request) => postChatCompletion(url, withModel(request), headers),
+    stream: (request, onDelta) => streamChatCompletion(url, withModel(request), headers, onDelta),
+  };
+}
+
+let currentProvider: LLMProvider | null = null;
+
+// 環境変数からプロバイダーを決定
+// NEXT_PUBLIC_LLM_PROVIDER: proxy（デフォルト） | openai-compatible | mock
+function createDefaultProvider(): LLMProvider {
+  switch (process.env.NEXT_PUBLIC_LLM_PROVIDER) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.NEXT_PUBLIC_LLM_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.NEXT_PUBLIC_LLM_MODEL,
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createProxyProvider();
+  }
+}
+
+// 現在のプロバイダーを取得
+export function getLLMProvider(): LLMProvider {
+  if (!currentProvider) {
+    currentProvider = createDefaultProvider();
+    console.log('LLMプロバイダー:', currentProvider.name);
+  }
+  return currentProvider;
+}
+
+// プロバイダーを差し替え（開発・テスト用）
+export function setLLMProvider(provider: LLMProvider | null): void {
+  currentProvider = provider;
+}
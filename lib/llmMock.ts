@@ -0,0 +1,79 @@
+import type { LLMProvider, LLMRequest } from '@/lib/llm';
+import { AnalysisResponse, FactSheetResponse, LLMResponse, RedFlagResponse, SummaryResponse } from '@/types';
+
+// 段階ごとの応答スクリプト（先頭から順に返す）
+export interface MockScript {
+  analyze?: AnalysisResponse[];
+  respond?: LLMResponse[];
+  summary?: SummaryResponse[];
+  memory?: FactSheetResponse[];
+  redflag?: RedFlagResponse[];
+}
+
+// スクリプトが尽きた場合のデフォルト応答
+const DEFAULT_RESPONSES: {
+  analyze: AnalysisResponse;
+  respond: LLMResponse;
+  summary: SummaryResponse;
+  memory: FactSheetResponse;
+  redflag: RedFlagResponse;
+} = {
+  analyze: {
+    answers: [],
+  },
+  respond: {
+    reply: 'ありがとうございます。わかりました。',
+    emotion: 'gentle',
+    needMoreInfo: false,
+    isComplete: false,
+  },
+  summary: {
+    formattedAnswers: [],
+    summary: '（モック）問診の要約です。',
+  },
+  memory: {
+    factSheet: '- （モック）これまでの会話の要点',
+  },
+  redflag: {
+    isRedFlag: false,
+    label: '',
+    reason: '',
+  },
+};
+
+// ストリーミング時の1チャンクあたりの文字数
+const STREAM_CHUNK_SIZE = 8;
+
+// オフライン開発・テスト用の決定的なモックプロバイダー
+export function createMockProvider(script: MockScript = {}): LLMProvider {
+  const queues = {
+    analyze: [...(script.analyze || [])],
+    respond: [...(script.respond || [])],
+    summary: [...(script.summary || [])],
+    memory: [...(script.memory || [])],
+    redflag: [...(script.redflag || [])],
+  };
+
+  const nextText = (request: LLMRequest) => {
+    request.signal?.throwIfAborted();
+    const next = queues[request.stage].shift() ?? DEFAULT_RESPONSES[request.stage];
+    console.log(`【モックLLM】${request.stage}:`, next);
+    return JSON.stringify(next);
+  };
+
+  return {
+    name: 'mock',
+    complete: async (request) => ({
+      text: nextText(request),
+      finishReason: 'stop',
+    }),
+    stream: async (request, onDelta) => {
+      const text = nextText(request);
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        onDelta(text.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+      return { text, finishReason: 'stop' };
+    },
+  };
+}
@@ -1,170 +1,243 @@
-import { LLMResponse, Question, AnalysisResponse } from '@/types';
+import {
+  Answer,
+  LLMResponse,
+  Question,
+  AnalysisResponse,
+  InterviewLanguage,
+  RedFlagResponse,
+  SpeechVoice,
+  SummaryResponse,
+  SymptomRecord,
+} from '@/types';
+import {
+  getLLMProvider,
+  LLMCompletion,
+  LLMProvider,
+  LLMInvalidResponseError,
+  LLMMessage,
+  LLMRequest,
+  LLMStage,
+} from '@/lib/llm';
+import { isAbortError, isRetryableError, withRetry, withTimeout } from '@/lib/request';
+import { DEFAULT_AI_SETTINGS, StageSettings } from '@/lib/settings';
+import { countMessageTokens, fitToBudget } from '@/lib/tokens';
+import { DEFAULT_PROMPT_TEMPLATES, renderPrompt } from '@/lib/prompts';
+import { createSentenceSplitter, extractPartialStringField } from '@/lib/streaming';
+import { collectSymptoms, formatSymptomRecord, formatSymptomStatus } from '@/lib/symptoms';
+import {
+  describeAnswerFormat,
+  findNormalizedValue,
+  formatAnswerFormatStatus,
+  formatNormalizedValue,
+} from '@/lib/answerNormalization';
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGES,
+  formatDialogLanguageInstruction,
+  formatRecordLanguageInstruction,
+} from '@/lib/languages';
+import { EASY_JAPANESE_INSTRUCTION } from '@/lib/easyJapanese';
+import { getSessionRedactor, withRedaction } from '@/lib/redaction';
+import { DEFAULT_SPEECH_VOICE, getTTSProvider } from '@/lib/tts';
+import { getCachedSpeech, hasCachedSpeech, putCachedSpeech } from '@/lib/ttsCache';
+import { LipSyncHandle, startAudioLipSync, startTextLipSync } from '@/lib/lipSync';
+import {
+  ValidationResult,
+  parseAndValidate,
+  validateAnalysisResponse,
+  validateFactSheetResponse,
+  validateLLMResponse,
+  validateRedFlagResponse,
+  validateSummaryResponse,
+} from '@/lib/validation';
+
+// 対話生成プロンプト全体のトークン予算（応答分は含まない）
+const DIALOG_PROMPT_TOKEN_BUDGET = 4000;
+
+// 各段階の呼び出しオプション
+export interface StageCallOptions {
+  template?: string; // 省略時は組み込みテンプレート
+  settings?: StageSettings; // 省略時はデフォルト設定
+  signal?: AbortSignal; // 新しいメッセージの送信やページ離脱で中断
+  language?: InterviewLanguage; // 問診の言語（省略時は日本語）
+}
+
+// 質問文に回答形式を添える（例: [ID: Q2] 睡眠時間は十分ですか？（選択肢: 十分 / やや不足 / 不足））
+function formatQuestionLine(question: Question): string {
+  const format = describeAnswerFormat(question);
+  return `[ID: ${question.id}] ${question.text}${format ? `（${format}）` : ''}`;
+}
+
+// 段階の生成設定からリクエストを組み立てる
+function buildRequest(
+  stage: LLMStage,
+  messages: LLMMessage[],
+  settings: StageSettings,
+  signal?: AbortSignal
+): LLMRequest {
+  return {
+    stage,
+    messages,
+    model: settings.model,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    timeoutMs: settings.timeoutMs,
+    jsonMode: true,
+    signal,
+  };
+}
+
+// 問診中は個人情報を伏せ字に置き換えてからプロバイダーに渡す（応答は元の値に戻る）
+function getProvider(): LLMProvider {
+  const redactor = getSessionRedactor();
+  return redactor ? withRedaction(getLLMProvider(), redactor) : getLLMProvider();
+}
 
-// 最大リトライ回数
-const MAX_RETRIES = 2;
-// リトライ間隔（ミリ秒）
-const RETRY_DELAY = 1000;
+// 通信障害に加えて応答構造の異常もリトライ
+function isRetryableLLMError(error: unknown): boolean {
+  return isRetryableError(error) || error instanceof LLMInvalidResponseError;
+}
+
+// 検証エラーの内容をモデルに伝え、修正したJSONを再生成させる
+async function repairCompletion<T>(
+  request: LLMRequest,
+  invalidText: string,
+  error: string,
+  validate: (text: string) => ValidationResult<T>
+): Promise<ValidationResult<T>> {
+  console.warn(`【${request.stage}】応答の検証に失敗、再生成を依頼:`, error);
+  try {
+    const { text } = await getProvider().complete({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: invalidText || '（空の応答）' },
+        {
+          role: 'user',
+          content: `直前の応答は形式が不正でした: ${error}\n指定されたJSON形式に従い、修正した応答のJSONのみを返してください。`,
+        },
+      ],
+    });
+    return validate(text);
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    return { ok: false, error: `再生成に失敗しました: ${(e as Error).message}` };
+  }
+}
 
-// 遅延ユーティリティ
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// LLMを呼び出して出力を検証し、不正な場合は1度だけ再生成を依頼する
+// 通信エラー等はretriesの回数までバックオフしながら再試行
+async function completeWithValidation<T>(
+  request: LLMRequest,
+  validate: (text: string) => ValidationResult<T>,
+  retries: number
+): Promise<ValidationResult<T>> {
+  const { text } = await withRetry(() => getProvider().complete(request), {
+    retries,
+    signal: request.signal,
+    isRetryable: isRetryableLLMError,
+    onRetry: (attempt, delayMs, error) =>
+      console.warn(`【${request.stage}】${delayMs}ms後にリトライ (${attempt}/${retries}):`, error),
+  });
+  const result = validate(text);
+  return result.ok ? result : repairCompletion(request, text, result.error, validate);
+}
 
 // 【1段階AI】ユーザーの回答を分析し、どの質問に答えたかを判定
 export async function analyzeUserAnswer(
   userAnswer: string,
   allQuestions: Question[],
   answeredQuestionIds: string[],
-  apiKey: string
+  {
+    template = DEFAULT_PROMPT_TEMPLATES.analyze,
+    settings = DEFAULT_AI_SETTINGS.analyze,
+    signal,
+    language = DEFAULT_LANGUAGE,
+  }: StageCallOptions = {}
 ): Promise<AnalysisResponse> {
   // 未回答の質問のみをリストアップ
   const unansweredQuestions = allQuestions
     .filter(q => !answeredQuestionIds.includes(q.id))
-    .map(q => `[ID: ${q.id}] ${q.text}`)
+    .map(formatQuestionLine)
     .join('\n');
 
-  const systemPrompt = `あなたは医療問診の回答分析の専門家です。
-患者の回答を分析し、どの質問に対する答えが含まれているかを判定してください。
-
-【未回答の質問リスト】
-${unansweredQuestions}
-
-【タスク】
-患者の回答から、上記の未回答質問に対する答えが含まれている場合、その質問IDをすべて抽出してください。
-
-【判定基準】
-- 明確に答えが含まれている質問のみを抽出
-- 推測や曖昧な情報は含めない
-- 例：「2時間しか寝れてない」→ 睡眠時間の質問に該当
-- 例：「頭痛と熱があります」→ 体調変化の質問に該当
-- 例：「食欲はあります」→ 食欲の質問に該当
-
-必ず以下のJSON形式で応答してください：
-{
-  "answeredQuestions": ["Q1", "Q2"]
-}
-
-answeredQuestionsが空の場合は空配列を返してください：
-{
-  "answeredQuestions": []
-}`;
+  // 日本語以外の回答も、記録は日本語で抽出させる
+  const languageInstruction = formatRecordLanguageInstruction(language);
+  const systemPrompt = renderPrompt(template, { unansweredQuestions })
+    + (languageInstruction ? `\n\n${languageInstruction}` : '');
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `患者の回答: ${userAnswer}` },
-        ],
-        temperature: 0.1, // 低温度で一貫性を確保
-        max_tokens: 200,
-        response_format: { type: 'json_object' },
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
+    const result = await completeWithValidation(
+      buildRequest('analyze', [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `患者の回答: ${userAnswer}` },
+      ], settings, signal),
+      (text) => parseAndValidate(text, data => validateAnalysisResponse(data, allQuestions, userAnswer)),
+      settings.retries
+    );
+
+    if (!result.ok) {
+      throw new Error(result.error);
     }
 
-    const data = await response.json();
-    const aiText = data.choices[0].message.content;
-    const parsed = JSON.parse(aiText);
-
-    console.log('【1段階AI】分析結果:', parsed);
+    console.log('【1段階AI】分析結果:', result.value);
 
+    // 既に回答済みの質問は除外
     return {
-      answeredQuestions: parsed.answeredQuestions || [],
+      answers: result.value.answers.filter(a => !answeredQuestionIds.includes(a.questionId)),
     };
   } catch (error) {
-    console.error('【1段階AI】分析エラー:', error);
-    // エラー時は空配列を返す
+    if (isAbortError(error)) throw error;
+    console.error('【1段階AI】分析エラー（リトライ後も失敗）:', error);
+    // エラー時は空配列を返す（発話は呼び出し元で現在の質問の回答として保存される）
     return {
-      answeredQuestions: [],
+      answers: [],
     };
   }
 }
 
+// ストリーミング時のコールバック
+export interface ResponseStreamHandlers {
+  onReplyText: (reply: string) => void; // 生成途中のreply（全文）
+  onSentence: (sentence: string) => void; // 完成した文（TTS用）
+  onReset?: () => void; // リトライ前に途中までの出力を破棄
+}
+
 // 【2段階AI】対話を生成（単純化版）
+// conversationHistoryは直近の会話、factSheetはそれより前の会話から判明している事実
+// streamを指定するとreplyを逐次通知し、needMoreInfo/emotionは生成完了後に確定する
+// symptomsは現在の質問について構造化済みの症状（未確認の要素を次に質問させる）
+// questionAnswersは現在の質問へのこれまでの回答（選択肢に当てはまらない場合は聞き直させる）
+// easyJapaneseを指定すると短い文・やさしい言葉で話し、ふりがな付きの本文も生成する
 export async function generateAIResponse(
   currentQuestion: Question,
   userAnswer: string,
   conversationHistory: { role: string; content: string }[],
-  apiKey: string,
-  isLastQuestion: boolean
+  factSheet: string,
+  isLastQuestion: boolean,
+  {
+    template = DEFAULT_PROMPT_TEMPLATES.respond,
+    settings = DEFAULT_AI_SETTINGS.respond,
+    signal,
+    language = DEFAULT_LANGUAGE,
+    stream,
+    symptoms = [],
+    questionAnswers = [],
+    easyJapanese = false,
+  }: StageCallOptions & {
+    stream?: ResponseStreamHandlers;
+    symptoms?: SymptomRecord[];
+    questionAnswers?: Answer[];
+    easyJapanese?: boolean;
+  } = {}
 ): Promise<LLMResponse> {
-  // 単純化されたプロンプト
-  const systemPrompt = `あなたは優しい医療問診アシスタントです。
-
-現在の質問: ${currentQuestion.text}
-
-【あなたの役割】
-1. 患者の回答に対して、優しく丁寧に応答する
-2. 症状に関する質問では、以下の4要素を確認する：
-   - いつから（期間）: 症状の開始時期
-   - どこが（場所）: 痛みや症状の部位
-   - どのように（性質）: 症状の特徴（ズキズキ、チクチク、鈍痛など）
-   - どの程度（強さ）: 痛みの強さ（10段階評価）や頻度
-3. 十分な情報が得られたかを判断する
-
-【重要】症状が複数ある場合の対応:
-- 複数の症状がある場合、各症状について4要素を確認する
-- 例: 「頭痛と熱があるのですね。それぞれいつ頃から感じていますか？」
-- 患者が「頭痛は2週間前から、熱は昨日から」のように答えた場合、次に場所や程度を確認
-
-【応答ルール】
-- 症状の質問: 4要素（いつから、どこが、どのように、どの程度）を段階的に確認
-  - まず「いつから」を確認
-  - 次に「どこが」「どのように」を確認
-  - 最後に「どの程度」を確認
-  - すべての要素が揃ったら needMoreInfo = false
-- その他の質問: 明確な答えが得られたら次へ進む
-- 追加情報が必要な場合: needMoreInfo = true
-- 十分な情報が得られた場合: needMoreInfo = false
-
-必ず以下のJSON形式で応答してください：
-{
-  "reply": "患者への応答文",
-  "emotion": "gentle",
-  "needMoreInfo": true または false,
-  "isComplete": ${isLastQuestion ? 'true または false' : 'false'}
-}
-
-例1（症状の初回回答 - いつから確認）:
-患者「頭痛があります」
-→ {"reply": "頭痛があるのですね。いつ頃から感じていますか？", "emotion": "gentle", "needMoreInfo": true, "isComplete": false}
-
-例2（期間確認後 - 場所と性質確認）:
-患者「2週間前からです」
-→ {"reply": "2週間前からなのですね。どの辺りが、どのように痛みますか？", "emotion": "gentle", "needMoreInfo": true, "isComplete": false}
-
-例3（場所・性質確認後 - 程度確認）:
-患者「頭全体がズキズキと痛みます」
-→ {"reply": "頭全体がズキズキと痛むのですね。痛みの強さは10段階でどのくらいですか？", "emotion": "gentle", "needMoreInfo": true, "isComplete": false}
-
-例4（すべての情報を得た）:
-患者「7くらいです」
-→ {"reply": "わかりました。詳しく教えていただきありがとうございます。", "emotion": "gentle", "needMoreInfo": false, "isComplete": false}
-
-例5（複数症状の場合）:
-患者「頭痛と熱があります」
-→ {"reply": "頭痛と熱があるのですね。それぞれいつ頃から感じていますか？", "emotion": "gentle", "needMoreInfo": true, "isComplete": false}
-
-例6（その他の質問）:
-患者「食欲はあります」
-→ {"reply": "食欲があるのですね。わかりました。", "emotion": "gentle", "needMoreInfo": false, "isComplete": false}`;
-
-  // 会話履歴が長すぎる場合は最新のものだけ保持 (토큰 제한 문제 방지)
-  const maxHistoryLength = 10; // 최근 10개 메시지만 유지 (user-assistant 5쌍) - 컨텍스트 증가
-  const trimmedHistory = conversationHistory.length > maxHistoryLength
-    ? conversationHistory.slice(-maxHistoryLength)
-    : conversationHistory;
+  const systemPrompt = renderPrompt(template, {
+    currentQuestion: currentQuestion.text,
+    isCompleteValue: isLastQuestion ? 'true または false' : 'false',
+  });
 
-  // 회화 히스토리에서 공백만 있는 메시지 필터링 및 길이 제한
-  const cleanedHistory = trimmedHistory
+  // 회화 히스토리에서 공백만 있는 메시지 필터링
+  const cleanedHistory: LLMMessage[] = conversationHistory
     .filter(msg => {
       const cleaned = msg.content
         .replace(/[\r\n\t\f\v\u0020\u00a0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000\ufeff]+/g, ' ')
@@ -172,270 +245,395 @@ export async function generateAIResponse(
       return cleaned.length > 0;
     })
     .map(msg => ({
-      role: msg.role,
-      content: msg.content.length > 200 ? msg.content.substring(0, 200) + '...' : msg.content
+      role: msg.role === 'user' ? 'user' : 'assistant',
+      content: msg.content,
     }));
-  const estimatedTokens = JSON.stringify(systemPrompt).length +
-    JSON.stringify(cleanedHistory).length +
-    JSON.stringify(userAnswer).length;
-  console.log('Total prompt chars (estimated):', estimatedTokens);
 
-  if (estimatedTokens > 3000) {
-    console.warn('⚠️ Prompt too long! Estimated chars:', estimatedTokens);
+  // 이미 얻은 정보(팩트 시트)를 AI에게 알려줌
+  const contextReminder = factSheet.trim()
+    ? `\n\n【これまでに判明している患者の情報】\n${factSheet}\n上記の情報は再度聞かないこと。`
+    : '';
+
+  // 症状の4要素のうち未確認のものを明示
+  const symptomStatus = formatSymptomStatus(symptoms);
+  const symptomReminder = symptomStatus ? `\n\n${symptomStatus}` : '';
+
+  // 選択肢・スケールの質問で回答が形式に当てはまったか
+  const formatStatus = formatAnswerFormatStatus(currentQuestion, questionAnswers);
+  const formatReminder = formatStatus ? `\n\n${formatStatus}` : '';
+
+  // 日本語以外の問診では患者の言語で応答させる（やさしい日本語は日本語の問診のみ）
+  const languageInstruction = language === DEFAULT_LANGUAGE
+    ? (easyJapanese ? EASY_JAPANESE_INSTRUCTION : '')
+    : formatDialogLanguageInstruction(language);
+  const languageReminder = languageInstruction ? `\n\n${languageInstruction}` : '';
+
+  const systemMessage: LLMMessage = {
+    role: 'system',
+    content: systemPrompt + contextReminder + symptomReminder + formatReminder + languageReminder,
+  };
+  const userMessage: LLMMessage = { role: 'user', content: userAnswer };
+
+  // トークン予算を超える場合は古い履歴から除外
+  const fixedTokens = countMessageTokens([systemMessage, userMessage], settings.model);
+  const { kept: recentHistory, dropped } = fitToBudget(
+    cleanedHistory,
+    DIALOG_PROMPT_TOKEN_BUDGET - fixedTokens,
+    settings.model
+  );
+  if (dropped.length > 0) {
+    console.warn(`⚠️ トークン予算超過のため古い履歴を${dropped.length}件除外しました`);
   }
- // 이미 얻은 정보를 요약해서 AI에게 알려줌
- const alreadyAnswered: string[] = [];
- for (let i = cleanedHistory.length - 1; i >= 0; i--) {
-   const msg = cleanedHistory[i];
-   if (msg.role === 'user' && msg.content.trim().length > 0) {
-     alreadyAnswered.push(msg.content);
-   }
- }
-
- const contextReminder = alreadyAnswered.length > 0
-   ? `\n\n【患者が既に答えた情報】\n${alreadyAnswered.slice(0, 3).join('\n')}\n上記の情報は再度聞かないこと。`
-   : '';
-
-  const messages = [
-    { role: 'system', content: systemPrompt+ contextReminder },
-    ...cleanedHistory,
-    { role: 'user', content: userAnswer },
-  ];
+  console.log('Prompt tokens (estimated):', fixedTokens + countMessageTokens(recentHistory, settings.model));
 
-  let lastError: Error | null = null;
+  const messages: LLMMessage[] = [
+    systemMessage,
+    ...recentHistory,
+    userMessage,
+  ];
 
-  // リトライロジック
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      if (attempt > 0) {
-        console.log(`OpenAI API リトライ中... (${attempt}/${MAX_RETRIES})`);
-        await delay(RETRY_DELAY * attempt);
-      }
+  const request = buildRequest('respond', messages, settings, signal);
+  let hasStreamedOutput = false;
 
-      // OpenAI API呼び出し
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: messages,
-          temperature: 0.4,
-          max_tokens: 1024, // 응답용 토큰 증가 (JSON 응답 + 여유)
-          response_format: { type: 'json_object' },
-        }),
-      });
+  // 途中まで流した出力を破棄
+  const resetStream = () => {
+    if (hasStreamedOutput) {
+      stream?.onReset?.();
+      hasStreamedOutput = false;
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error('OpenAI API error:', {
-          status: response.status,
-          statusText: response.statusText,
-          errorData,
+  try {
+    // 通信障害・応答構造の異常はバックオフしながらリトライ
+    return await withRetry(async () => {
+      resetStream();
+
+      // LLMプロバイダー呼び出し
+      let completion: LLMCompletion;
+      if (stream) {
+        // JSONの生成途中からreplyを取り出し、文ごとにTTSへ渡す
+        let buffer = '';
+        let lastReply = '';
+        const splitter = createSentenceSplitter(stream.onSentence);
+
+        completion = await getProvider().stream(request, (delta) => {
+          buffer += delta;
+          const { text } = extractPartialStringField(buffer, 'reply');
+          if (text !== lastReply) {
+            lastReply = text;
+            hasStreamedOutput = true;
+            stream.onReplyText(text);
+            splitter.push(text);
+          }
         });
+        splitter.flush(lastReply);
+      } else {
+        completion = await getProvider().complete(request);
+      }
+      const { text: aiText, finishReason } = completion;
+      console.log('LLM raw response:', aiText);
+      console.log('LLM raw response length:', aiText?.length);
+      console.log('LLM finish_reason:', finishReason);
+
+      // スキーマ検証（不正な場合は1度だけ再生成を依頼）
+      const validate = (text: string) => parseAndValidate(text, validateLLMResponse);
+      let result = validate(aiText);
+      if (!result.ok) {
+        // 途中まで流した出力は破棄して、再生成した応答をまとめて使う
+        resetStream();
+        result = await repairCompletion(request, aiText, result.error, validate);
+      }
 
-        // 레이트 리밋이나 서버 에러는 재시도
-        if (response.status === 429 || response.status >= 500) {
-          lastError = new Error(`OpenAI API error: ${response.status} - ${response.statusText}`);
-          continue;
-        }
-
-        throw new Error(`OpenAI API error: ${response.statusText} - ${JSON.stringify(errorData)}`);
+      // 再生成でも不正な場合はリトライせずフォールバック
+      if (!result.ok) {
+        throw new Error(result.error);
       }
 
-      const data = await response.json();
+      console.log('【2段階AI】応答:', result.value);
+      return result.value;
+    }, {
+      retries: settings.retries,
+      signal,
+      isRetryable: isRetryableLLMError,
+      onRetry: (attempt, delayMs, error) =>
+        console.warn(`AI応答生成エラー、${delayMs}ms後にリトライ (${attempt}/${settings.retries}):`, error),
+    });
+  } catch (error) {
+    // 中断された場合は応答を返さない（古い応答がメッセージに追加されないように）
+    if (isAbortError(error)) throw error;
 
-      // 응답 구조 검증
-      if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-        console.error('OpenAI API 응답 구조가 올바르지 않음:', data);
-        lastError = new Error('Invalid API response structure');
-        continue;
-      }
+    // 모든 재시도 실패 시 폴백
+    console.error('OpenAI API 모든 재시도 실패:', error);
+    resetStream();
+    return {
+      reply: LANGUAGES[language].fallbackReply,
+      emotion: 'gentle',
+      needMoreInfo: true,
+      isComplete: false,
+      isFallback: true,
+    };
+  }
+}
 
-      const aiText = data.choices[0].message.content;
-      console.log('OpenAI raw response:', aiText);
-      console.log('OpenAI raw response length:', aiText?.length);
-      console.log('OpenAI finish_reason:', data.choices[0].finish_reason);
+// 再生中の音声を停止して待機中のPromiseを解決する関数
+let stopCurrentPlayback: (() => void) | null = null;
+// 現在の読み上げキュー
+let activeSpeechQueue: { cancel: () => void } | null = null;
+// 単発の読み上げ（speakText）の音声取得を中断するためのコントローラー
+let activeSpeechController: AbortController | null = null;
+
+// TTS 1回あたりのタイムアウト（ミリ秒）とリトライ回数
+const TTS_TIMEOUT = 15000;
+const TTS_RETRIES = 1;
+
+// 声の設定に対応するプロバイダーで音声データを生成（ブラウザの音声合成の場合は null）
+async function fetchSpeechAudio(text: string, voice: SpeechVoice, signal?: AbortSignal): Promise<Blob | null> {
+  return withRetry(
+    () => withTimeout(TTS_TIMEOUT, signal, (requestSignal) =>
+      getTTSProvider(voice.provider).synthesize(text, voice, requestSignal)
+    ),
+    { retries: TTS_RETRIES, signal }
+  );
+}
 
-      // 빈 응답 체크
-      if (!aiText || typeof aiText !== 'string') {
-        console.error('OpenAI API가 빈 응답을 반환함:', { aiText, finishReason: data.choices[0].finish_reason });
-        lastError = new Error('Empty response from API');
-        continue;
-      }
+// 音声データを取得（同じ文・声の音声はキャッシュから使い、新たに生成した音声はキャッシュに保存）
+// 個人情報を含む文（氏名を元に戻した応答など）は端末に残さないため、キャッシュしない
+async function synthesizeSpeech(text: string, voice: SpeechVoice, signal?: AbortSignal): Promise<Blob | null> {
+  if (voice.provider === 'browser') return null;
 
-      // 공백만 있는 응답 체크 (모든 종류의 공백 문자 제거)
-      const cleanedText = aiText
-        .replace(/[\r\n\t\f\v\u0020\u00a0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000\ufeff]+/g, '')
-        .trim();
+  const cached = await getCachedSpeech(text, voice);
+  if (cached) return cached;
 
-      if (!cleanedText || cleanedText.length < 5) {
-        console.error('OpenAI API가 공백만 있는 응답을 반환함:', {
-          original: JSON.stringify(aiText.substring(0, 100)),
-          originalLength: aiText.length,
-          cleaned: cleanedText,
-          cleanedLength: cleanedText.length,
-          finishReason: data.choices[0].finish_reason,
-          charCodes: Array.from(aiText.slice(0, 20)).map(c => `${c}(${c.charCodeAt(0)})`).join(' ')
-        });
-        lastError = new Error('Whitespace-only response from API');
-        continue;
-      }
+  const audioBlob = await fetchSpeechAudio(text, voice, signal);
+  if (audioBlob && !getSessionRedactor()?.containsPII(text)) {
+    void putCachedSpeech(text, voice, audioBlob);
+  }
+  return audioBlob;
+}
 
-      // JSON形式の応답をパース
+// 事前に音声を生成する文と、読み上げに使う声（キャッシュは文と声・速度の組で引くため、実際の読み上げと同じものを渡す）
+export interface PrewarmSpeech {
+  text: string;
+  voice: SpeechVoice;
+}
+
+// 読み上げる文の音声を事前に生成してキャッシュに保存（生成済みの文は飛ばす）
+// 戻り値は生成に失敗した文の数
+export async function prewarmSpeechCache(
+  speeches: PrewarmSpeech[],
+  onProgress?: (done: number, total: number) => void
+): Promise<number> {
+  const unique = new Map<string, PrewarmSpeech>();
+  for (const { text, voice } of speeches) {
+    const trimmed = text.trim();
+    if (trimmed) {
+      unique.set(JSON.stringify([voice, trimmed]), { text: trimmed, voice });
+    }
+  }
+  const uniqueSpeeches = [...unique.values()];
+  let failed = 0;
+
+  for (const [index, { text, voice }] of uniqueSpeeches.entries()) {
+    if (voice.provider !== 'browser' && !(await hasCachedSpeech(text, voice))) {
       try {
-        // JSON 부분만 추출 시도
-        const jsonMatch = aiText.match(/\{[\s\S]*\}/);
-        const jsonText = jsonMatch ? jsonMatch[0] : aiText;
-        const parsed = JSON.parse(jsonText);
-
-        // 필수 필드 검증
-        if (!parsed.reply || typeof parsed.reply !== 'string') {
-          console.error('응답에 reply 필드가 없음:', parsed);
-          lastError = new Error('Missing reply field in response');
-          continue;
+        const audioBlob = await fetchSpeechAudio(text, voice);
+        if (audioBlob) {
+          await putCachedSpeech(text, voice, audioBlob);
         }
+      } catch (error) {
+        console.error('音声の事前生成エラー:', text, error);
+        failed++;
+      }
+    }
+    onProgress?.(index + 1, uniqueSpeeches.length);
+  }
+  return failed;
+}
 
-        console.log('OpenAI parsed response:', parsed);
+// 音声データをAudio要素で再生（停止された場合も解決する）
+// 口の動きは再生中の音声の解析から（解析できない場合は文から推定）
+function playAudioBlob(audioBlob: Blob, text: string, onPlayStart?: () => void): Promise<void> {
+  const audioUrl = URL.createObjectURL(audioBlob);
 
-        // reply 필드도 공백만 있는지 체크
-        const replyClean = parsed.reply
-          .replace(/[\r\n\t\f\v\u0020\u00a0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000\ufeff]+/g, ' ')
-          .trim();
+  return new Promise((resolve, reject) => {
+    const audio = new Audio(audioUrl);
+    let lipSync: LipSyncHandle | null = null;
+
+    const finish = () => {
+      lipSync?.stop();
+      URL.revokeObjectURL(audioUrl);
+      if (stopCurrentPlayback === finish) {
+        stopCurrentPlayback = null;
+      }
+      resolve();
+    };
 
-        if (!replyClean || replyClean.length < 2) {
-          console.error('reply 필드가 공백만 포함:', {
-            original: parsed.reply,
-            cleaned: replyClean
-          });
-          lastError = new Error('Reply field contains only whitespace');
-          continue;
-        }
+    audio.onended = finish;
 
-        console.log('【2段階AI】応答:', parsed);
+    audio.onerror = (error) => {
+      console.error('音声再生エラー:', error);
+      lipSync?.stop();
+      URL.revokeObjectURL(audioUrl);
+      reject(error);
+    };
 
-        return {
-          reply: parsed.reply,
-          emotion: parsed.emotion || 'gentle',
-          needMoreInfo: parsed.needMoreInfo !== undefined ? parsed.needMoreInfo : true,
-          isComplete: parsed.isComplete || false,
-        } as LLMResponse;
-      } catch (e) {
-        console.error('Failed to parse AI response as JSON:', {
-          error: e,
-          originalText: aiText.slice(0, 200),
-          cleanedText: cleanedText.slice(0, 200),
-        });
-        lastError = e as Error;
-        continue;
-      }
-    } catch (error) {
-      console.error(`AI応答生成エラー (attempt ${attempt + 1}):`, error);
-      lastError = error as Error;
+    // 音声再生が実際に開始されたときのイベント
+    audio.onplay = () => {
+      console.log('Audio playback started');
+      lipSync ??= startTextLipSync(text, { durationMs: audio.duration * 1000 });
+      onPlayStart?.();
+    };
 
-      // 네트워크 에러 등은 재시도
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        continue;
-      }
+    // 既存の音声を停止
+    stopAudio();
 
-      // 그 외 에러는 즉시 실패
-      break;
+    // グローバルに保存して停止できるようにする
+    if (typeof window !== 'undefined') {
+      (window as any).currentAudio = audio;
     }
-  }
+    stopCurrentPlayback = finish;
+    lipSync = startAudioLipSync(audio);
 
-  // 모든 재시도 실패 시 폴백
-  console.error('OpenAI API 모든 재시도 실패:', lastError);
-  return {
-    reply: '申し訳ございません。通信エラーが発生しました。もう一度お願いできますか？',
-    emotion: 'gentle',
-    needMoreInfo: true,
-    isComplete: false,
-  };
+    audio.play().catch((err) => {
+      console.error('audio.play() 失敗:', err);
+      reject(err);
+    });
+  });
 }
 
-// OpenAI TTS APIを使用して音声を生成・再生
+// 声の設定のプロバイダー（OpenAI TTS・ローカルTTSサーバー等）で音声を生成・再生
+// signalまたはstopSpeaking()で中断された場合は何も再生せずに解決する
 export async function speakText(
   text: string,
-  apiKey: string,
-  onPlayStart?: () => void
+  onPlayStart?: () => void,
+  signal?: AbortSignal,
+  voice: SpeechVoice = DEFAULT_SPEECH_VOICE
 ): Promise<void> {
+  activeSpeechController?.abort();
+  const controller = new AbortController();
+  activeSpeechController = controller;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let audioBlob: Blob | null;
   try {
-    if (!apiKey) {
-      console.warn('OpenAI API key not found, falling back to Web Speech API');
-      return speakTextWithWebAPI(text, onPlayStart);
+    if (signal?.aborted) return;
+    audioBlob = await synthesizeSpeech(text, voice, controller.signal);
+  } catch (error) {
+    if (isAbortError(error)) return;
+    console.error('TTS エラー:', error);
+    // フォールバック: Web Speech APIを使用
+    return speakTextWithWebAPI(text, onPlayStart, voice);
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    if (activeSpeechController === controller) {
+      activeSpeechController = null;
     }
+  }
 
-    // OpenAI TTS API呼び出し
-    const response = await fetch('https://api.openai.com/v1/audio/speech', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'tts-1',
-        voice: 'nova', // 女性の声: alloy, echo, fable, onyx, nova, shimmer
-        input: text,
-        speed: 1.11,
-      }),
-    });
+  if (controller.signal.aborted) return;
+  return audioBlob ? playAudioBlob(audioBlob, text, onPlayStart) : speakTextWithWebAPI(text, onPlayStart, voice);
+}
 
-    if (!response.ok) {
-      throw new Error(`OpenAI TTS API error: ${response.statusText}`);
-    }
+// 文単位の逐次読み上げキュー
+// 次の文の音声を先に取得しておき、前の文の再生が終わり次第続けて再生する
+export function createSpeechQueue(onPlayStart?: () => void, voice: SpeechVoice = DEFAULT_SPEECH_VOICE) {
+  let pending: { text: string; audio: Promise<Blob | null>; generation: number }[] = [];
+  let ended = false;
+  let cancelled = false;
+  // clear() のたびに増やし、破棄された文の音声は再生しない
+  let generation = 0;
+  let controller = new AbortController();
+  let wake: (() => void) | null = null;
+
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
 
-    // 音声データを取得
-    const audioBlob = await response.blob();
-    const audioUrl = URL.createObjectURL(audioBlob);
-
-    // Audio要素で再生
-    return new Promise((resolve, reject) => {
-      const audio = new Audio(audioUrl);
-
-      audio.onended = () => {
-        URL.revokeObjectURL(audioUrl);
-        resolve();
-      };
-
-      audio.onerror = (error) => {
-        console.error('音声再生エラー:', error);
-        URL.revokeObjectURL(audioUrl);
-        reject(error);
-      };
-
-      // 音声再生が実際に開始されたときのイベント
-      audio.onplay = () => {
-        console.log('Audio playback started');
-        onPlayStart?.();
-      };
-
-      // 既存の音声を停止
-      stopSpeaking();
-
-      // グローバルに保存して停止できるようにする
-      if (typeof window !== 'undefined') {
-        (window as any).currentAudio = audio;
+  const run = async () => {
+    while (!cancelled) {
+      const item = pending.shift();
+      if (!item) {
+        if (ended) return;
+        await new Promise<void>(resolve => {
+          wake = resolve;
+        });
+        continue;
+      }
+
+      const audioBlob = await item.audio;
+      if (cancelled) return;
+      if (item.generation !== generation) continue;
+
+      try {
+        if (audioBlob) {
+          await playAudioBlob(audioBlob, item.text, onPlayStart);
+        } else {
+          await speakTextWithWebAPI(item.text, onPlayStart, voice);
+        }
+      } catch (error) {
+        console.error('文の読み上げエラー:', error);
       }
+    }
+  };
 
-      audio.play().catch((err) => {
-        console.error('audio.play() 失敗:', err);
-        reject(err);
+  const queue = {
+    // 文を追加（音声の取得はすぐに開始）
+    enqueue(text: string) {
+      if (cancelled || ended) return;
+      pending.push({
+        text,
+        generation,
+        audio: synthesizeSpeech(text, voice, controller.signal).catch(error => {
+          if (!isAbortError(error)) {
+            console.error('TTS エラー（Web Speech APIで代替）:', error);
+          }
+          return null;
+        }),
       });
-    });
-  } catch (error) {
-    console.error('OpenAI TTS エラー:', error);
-    // フォールバック: Web Speech APIを使用
-    return speakTextWithWebAPI(text, onPlayStart);
-  }
+      notify();
+    },
+    // これ以上文が追加されないことを通知
+    end() {
+      ended = true;
+      notify();
+    },
+    // 未再生の文を破棄して再生中の音声も止める（キュー自体は継続）
+    clear() {
+      pending = [];
+      generation++;
+      controller.abort();
+      controller = new AbortController();
+      stopAudio();
+    },
+    // キューを完全に停止（取得中の音声も中断）
+    cancel() {
+      cancelled = true;
+      pending = [];
+      controller.abort();
+      notify();
+    },
+    done: Promise.resolve(),
+  };
+
+  // 既存のキューを停止して置き換える
+  activeSpeechQueue?.cancel();
+  activeSpeechQueue = queue;
+  queue.done = run().finally(() => {
+    if (activeSpeechQueue === queue) {
+      activeSpeechQueue = null;
+    }
+  });
+
+  return queue;
 }
 
-// ブラウザのWeb Speech APIを使用してTTSを再生（フォールバック）
-function speakTextWithWebAPI(
+// ブラウザのWeb Speech APIを使用してTTSを再生（フォールバック、スクリプト問診でも使用）
+export function speakTextWithWebAPI(
   text: string,
   onPlayStart?: () => void,
-  lang: string = 'ja-JP'
+  voice: SpeechVoice = DEFAULT_SPEECH_VOICE
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     if (typeof window === 'undefined' || !window.speechSynthesis) {
@@ -444,17 +642,37 @@ function speakTextWithWebAPI(
     }
 
     const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = lang;
-    utterance.rate = 1.0;
-    utterance.pitch = 1.1;
+    utterance.lang = voice.lang;
+    // ブラウザの音声合成を選んだ場合は設定どおり、他のプロバイダーの代替の場合は
+    // 通常は1.0、ゆっくり読み上げる場合のみ設定の速度に合わせて下げる
+    utterance.rate = voice.provider === 'browser' ? voice.speed : Math.min(1.0, voice.speed);
+    utterance.pitch = voice.pitch;
+    // 話者名が一致する声があれば使用（ない場合は言語の既定の声）
+    const systemVoice = window.speechSynthesis.getVoices().find(v => v.name === voice.voice);
+    if (systemVoice) {
+      utterance.voice = systemVoice;
+    }
     utterance.volume = 1.0;
 
-    utterance.onend = () => resolve();
-    utterance.onerror = (error) => reject(error);
+    // 音声データを取り出せないため、口の動きは文から推定（単語の区切りで位置を合わせる）
+    let lipSync: LipSyncHandle | null = null;
+
+    utterance.onend = () => {
+      lipSync?.stop();
+      resolve();
+    };
+    utterance.onerror = (error) => {
+      lipSync?.stop();
+      reject(error);
+    };
+    utterance.onboundary = (event) => {
+      lipSync?.syncToChar?.(event.charIndex);
+    };
 
     // 音声再生が開始されたときのイベント
     utterance.onstart = () => {
       console.log('Web Speech API playback started');
+      lipSync = startTextLipSync(text, { rate: utterance.rate });
       onPlayStart?.();
     };
 
@@ -466,125 +684,209 @@ function speakTextWithWebAPI(
   });
 }
 
-// TTS再生を停止
-export function stopSpeaking(): void {
-  // OpenAI TTS Audio停止
+// 再生中の音声のみ停止
+function stopAudio(): void {
+  // 音声データ（Audio要素）の再生停止
   if (typeof window !== 'undefined' && (window as any).currentAudio) {
     const audio = (window as any).currentAudio as HTMLAudioElement;
     audio.pause();
     audio.currentTime = 0;
     (window as any).currentAudio = null;
   }
-  
+  stopCurrentPlayback?.();
+
   // Web Speech API停止
   if (typeof window !== 'undefined' && window.speechSynthesis) {
     window.speechSynthesis.cancel();
   }
 }
 
-// 요약 응답 타입
-export interface SummaryResponse {
-  formattedAnswers: {
-    questionId: string;
-    questionText: string;
-    extractedAnswer: string;
-    confidence: 'high' | 'medium' | 'low';
-  }[];
-  summary: string;
+// TTS再生を停止（読み上げキューも含む）
+export function stopSpeaking(): void {
+  activeSpeechQueue?.cancel();
+  activeSpeechQueue = null;
+  activeSpeechController?.abort();
+  activeSpeechController = null;
+  stopAudio();
+}
+
+// 会話メモリ: 古い会話を既存のファクトシートに統合して圧縮
+export async function compressConversation(
+  existingFactSheet: string,
+  turns: { role: string; content: string }[],
+  settings: StageSettings = DEFAULT_AI_SETTINGS.memory,
+  signal?: AbortSignal
+): Promise<string> {
+  const turnsText = turns
+    .map(m => `${m.role === 'user' ? '患者' : 'アシスタント'}: ${m.content}`)
+    .join('\n');
+
+  const systemPrompt = `あなたは医療問診の記録係です。
+既存のファクトシートと新たな会話を統合し、患者について判明した事実を箇条書きで簡潔にまとめてください。
+
+【ルール】
+- 症状、期間、部位、性質、程度、生活習慣など、患者が答えた事実のみを残す
+- 挨拶やアシスタントの質問文は含めない
+- 既存のファクトシートの内容は削除せず、新しい情報で更新・追記する
+- 推測はしない
+
+必ず以下のJSON形式で応答してください：
+{
+  "factSheet": "- 頭痛: 2週間前から、頭全体、ズキズキ、10段階中7\n- 睡眠: 2時間程度"
+}`;
+
+  try {
+    const result = await completeWithValidation(
+      buildRequest('memory', [
+        { role: 'system', content: systemPrompt },
+        {
+          role: 'user',
+          content: `【既存のファクトシート】\n${existingFactSheet || '（なし）'}\n\n【新たな会話】\n${turnsText}`,
+        },
+      ], settings, signal),
+      (text) => parseAndValidate(text, validateFactSheetResponse),
+      settings.retries
+    );
+
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+
+    console.log('【会話メモリ】ファクトシート更新:', result.value.factSheet);
+    return result.value.factSheet;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error('【会話メモリ】圧縮エラー:', error);
+    // フォールバック: 患者の発話をそのまま追記
+    const userLines = turns
+      .filter(m => m.role === 'user')
+      .map(m => `- 患者: ${m.content}`);
+    return [existingFactSheet, ...userLines].filter(Boolean).join('\n');
+  }
+}
+
+// レッドフラグ分類器: キーワードに一致しない表現でも緊急性のある発言かを判定
+// knownLabels: ルールで定義されている緊急事態の種類（判定の目安として渡す）
+export async function classifyRedFlag(
+  userMessage: string,
+  knownLabels: string[],
+  settings: StageSettings = DEFAULT_AI_SETTINGS.redflag,
+  signal?: AbortSignal
+): Promise<RedFlagResponse> {
+  const labelsText = knownLabels.length > 0 ? knownLabels.map(l => `- ${l}`).join('\n') : '（指定なし）';
+
+  const systemPrompt = `あなたは医療問診のトリアージ担当です。
+患者の発言に、すぐにスタッフが対応すべき緊急性のある内容が含まれているかを判定してください。
+
+【緊急事態の例】
+${labelsText}
+- その他、生命に関わる症状や自分・他人を傷つける意図
+
+【ルール】
+- 過去の出来事や否定（「胸は痛くない」など）は緊急とみなさない
+- 判断に迷う場合は安全側に倒して true とする
+- labelには該当する緊急事態の種類を短く書く
+
+必ず以下のJSON形式で応答してください：
+{
+  "isRedFlag": true または false,
+  "label": "胸痛",
+  "reason": "判定理由（1文）"
+}`;
+
+  try {
+    const result = await completeWithValidation(
+      buildRequest('redflag', [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `患者の発言: ${userMessage}` },
+      ], settings, signal),
+      (text) => parseAndValidate(text, validateRedFlagResponse),
+      settings.retries
+    );
+
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+
+    console.log('【レッドフラグ】分類結果:', result.value);
+    return result.value;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    // 分類器の失敗で問診を止めない（キーワードルールは別途適用済み）
+    console.error('【レッドフラグ】分類エラー:', error);
+    return { isRedFlag: false, label: '', reason: '' };
+  }
 }
 
 // 要約AIを使用して会話から回答を抽出・フォーマット
+// extractedAnswers: 1段階AIが質問ごとに抽出済みの回答（要約の出発点として使う）
 export async function generateSummary(
   questions: Question[],
   conversationHistory: { role: string; content: string }[],
-  apiKey: string
+  extractedAnswers: Answer[] = [],
+  {
+    template = DEFAULT_PROMPT_TEMPLATES.summary,
+    settings = DEFAULT_AI_SETTINGS.summary,
+    signal,
+    language = DEFAULT_LANGUAGE,
+  }: StageCallOptions = {}
 ): Promise<SummaryResponse> {
   const questionsInfo = questions.map((q, i) =>
-    `${i + 1}. [ID: ${q.id}] ${q.text}`
+    `${i + 1}. ${formatQuestionLine(q)}`
   ).join('\n');
 
-  const systemPrompt = `あなたは医療問診の回答を分析・整理する専門家です。
-以下の会話履歴を分析し、各質問に対する患者の回答を抽出してください。
-
-【重要な注意事項】
-- 患者は質問の順番通りに回答していない場合があります
-- 患者は一度の回答で複数の質問に答えている場合があります
-  例：「最近 2時間しか寝れてなくて頭痛と熱があります」
-  → 睡眠時間（2時間）、症状（頭痛、発熱）の情報が含まれる
-- 会話全体の文脈から、各質問に最も適切な回答を見つけてください
-- 回答が見つからない質問には「回答なし」と記載してください
-- 挨拶や関係のない発言は無視してください
-- 同じ質問に対して複数回の応答がある場合（追加質問で詳細を聞いた場合）、すべての情報を統合して簡潔にまとめてください
-
-【回答のフォーマットルール】
-- 回答は簡潔に、構造化してまとめてください
-- 症状に関する質問の場合、以下の4要素を必ず含めて整理してください：
-  1. いつから（期間）: 症状の開始時期
-  2. どこが（場所）: 痛みや症状の部位
-  3. どのように（性質）: 症状の特徴（ズキズキ、チクチク、鈍痛など）
-  4. どの程度（強さ）: 痛みの強さや頻度
-
-- 症状フォーマット例:
-  「頭痛: [いつから] 2週間前から、[どこが] 頭全体、[どのように] ズキズキと脈打つような痛み、[どの程度] 10段階中7程度
-  発熱: [いつから] 昨日から、[どの程度] 38度
-  倦怠感: [いつから] 3日前から、[どの程度] 常に感じる」
-
-- 複数の症状がある場合は、各症状ごとに改行して整理してください
-- 症状以外の質問（睡眠、食欲、運動など）: 「2時間」「週3回ジム通い」「ストレスなし」のように簡潔に
-- 「よろしくお願いします」などの挨拶は除外してください
-- 情報が不足している要素は省略してください（無理に推測しない）
-
-【質問リスト】
-${questionsInfo}
-
-以下のJSON形式で応答してください：
-{
-  "formattedAnswers": [
-    {
-      "questionId": "質問ID",
-      "questionText": "質問テキスト",
-      "extractedAnswer": "簡潔にまとめた回答（キーワード・要点のみ）",
-      "confidence": "high | medium | low"
-    }
-  ],
-  "summary": "問診全体の簡潔な要約（2-3文）"
-}`;
+  // 会話が日本語以外でも、スタッフ向けの要約は日本語で作成させる
+  const languageInstruction = formatRecordLanguageInstruction(language);
+  const systemPrompt = renderPrompt(template, { questionList: questionsInfo })
+    + (languageInstruction ? `\n\n${languageInstruction}` : '');
 
   const conversationText = conversationHistory
     .map(m => `${m.role === 'user' ? '患者' : 'アシスタント'}: ${m.content}`)
     .join('\n');
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: `【会話履歴】\n${conversationText}` },
-        ],
-        temperature: 0.2,
-        max_tokens: 2048,
-        response_format: { type: 'json_object' },
-      }),
-    });
+  // 質問ごとに抽出済みの回答（会話履歴と照らし合わせて使う）
+  const extractedText = extractedAnswers.length > 0
+    ? `【質問ごとに抽出済みの回答】\n${extractedAnswers
+        .map(a => `[ID: ${a.questionId}] ${a.answer}${a.evidence ? `（根拠: ${a.evidence}）` : ''}${
+          a.normalizedValue !== undefined ? `\n  記録値: ${formatNormalizedValue(a.normalizedValue)}` : ''
+        }${
+          a.symptoms ? `\n  症状: ${a.symptoms.map(formatSymptomRecord).join(' ／ ')}` : ''
+        }`)
+        .join('\n')}\n\n`
+    : '';
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
+  try {
+    const result = await completeWithValidation(
+      buildRequest('summary', [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: `${extractedText}【会話履歴】\n${conversationText}` },
+      ], settings, signal),
+      (text) => parseAndValidate(text, data => validateSummaryResponse(data, questions)),
+      settings.retries
+    );
+
+    if (!result.ok) {
+      throw new Error(result.error);
     }
 
-    const data = await response.json();
-    const aiText = data.choices[0].message.content;
-    console.log('OpenAI summary raw response:', aiText);
+    console.log('LLM summary validated response:', result.value);
 
-    const parsed = JSON.parse(aiText);
-    console.log('OpenAI summary parsed response:', parsed);
-    return parsed as SummaryResponse;
+    // 要約AIが症状を構造化しなかった質問は、対話中に抽出した記録で補う
+    // 選択肢・スケールの記録値は対話中に正規化した最新の値を使う
+    return {
+      ...result.value,
+      formattedAnswers: result.value.formattedAnswers.map(answer => {
+        const symptoms = answer.symptoms || collectSymptoms(extractedAnswers, answer.questionId);
+        const normalizedValue = findNormalizedValue(extractedAnswers, answer.questionId);
+        return {
+          ...answer,
+          ...(symptoms.length > 0 && { symptoms }),
+          ...(normalizedValue !== undefined && { normalizedValue }),
+        };
+      }),
+    };
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error('要約生成エラー:', error);
 
     // フォールバック: 元の回答をそのまま返す
@@ -0,0 +1,300 @@
+// プロンプトテンプレートの管理（文診表ごとに編集可能、バージョン履歴付き）
+
+// テンプレートを持つ段階
+export type PromptStage = 'analyze' | 'respond' | 'summary';
+
+// 保存されたテンプレートの1バージョン
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  note?: string;
+  createdAt: number;
+}
+
+// セッション開始時に確定したテンプレート
+export interface ResolvedPrompt {
+  body: string;
+  versionId: string; // 例: general-health@3 / default@1 / builtin@0
+}
+
+export type ResolvedPromptSet = Record<PromptStage, ResolvedPrompt>;
+
+// 保存形式: スコープ（文診表ID または default）→ 段階 → バージョン履歴
+type PromptStore = Record<string, Partial<Record<PromptStage, PromptTemplateVersion[]>>>;
+
+const STORAGE_KEY = 'prompt_templates';
+
+// 全文診表共通のスコープ
+export const DEFAULT_SCOPE = 'default';
+
+export const PROMPT_STAGES: PromptStage[] = ['analyze', 'respond', 'summary'];
+
+export const PROMPT_STAGE_LABELS: Record<PromptStage, string> = {
+  analyze: '回答分析（1段階AI）',
+  respond: '対話生成（2段階AI）',
+  summary: '要約',
+};
+
+// 段階ごとに使用できるプレースホルダー
+export const PROMPT_PLACEHOLDERS: Record<PromptStage, { key: string; description: string }[]> = {
+  analyze: [
+    { key: 'unansweredQuestions', description: '未回答の質問リスト（[ID: Q1] 質問文（回答形式））' },
+  ],
+  respond: [
+    { key: 'currentQuestion', description: '現在の質問文' },
+    { key: 'isCompleteValue', description: 'isCompleteに許可する値（最後の質問のみ true または false）' },
+  ],
+  summary: [
+    { key: 'questionList', description: '全質問のリスト（番号付き、回答形式を含む）' },
+  ],
+};
+
+// 組み込みのデフォルトテンプレート
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptStage, string> = {
+  analyze: `あなたは医療問診の回答分析の専門家です。
+患者の回答を分析し、どの質問に対する答えが含まれているかを判定してください。
+
+【未回答の質問リスト】
+{{unansweredQuestions}}
+
+【タスク】
+患者の回答から、上記の未回答質問に対する答えが含まれている場合、質問ごとに回答内容を抽出してください。
+- value: その質問に対する回答のみを簡潔に抽出（他の質問に関する内容は含めない）
+- evidence: 根拠となる患者の発言部分（原文からそのまま抜き出す）
+- symptoms: 症状に関する回答の場合のみ、症状ごとに以下を構造化（発言に含まれない項目は省略する）
+  - name: 症状名 / onset: いつから / location: どこが / quality: どのように
+  - severity: 強さ（0〜10の数値、患者が10段階で答えた場合のみ） / frequency: 頻度
+- normalizedValue: 質問に回答形式が指定されている場合のみ、回答を形式に当てはめた値
+  - 選択肢: 最も近い選択肢の文字列をそのまま（例: 「ちょっと寝足りない」→「やや不足」）
+  - 複数選択可: 当てはまる選択肢の配列
+  - 0〜10の数値: 数値
+  - どの選択肢にも当てはまらない場合・判断できない場合は null（無理に当てはめない）
+
+【判定基準】
+- 明確に答えが含まれている質問のみを抽出
+- 推測や曖昧な情報は含めない
+- 例：「2時間しか寝れてない」→ 睡眠時間の質問に該当
+- 例：「頭痛と熱があります」→ 体調変化の質問に該当
+- 例：「食欲はあります」→ 食欲の質問に該当
+
+【一度に複数の質問に答えている場合の例】
+患者「2時間しか寝れてなくて頭痛があります」
+→ 睡眠時間の質問: value「2時間しか眠れていない」, evidence「2時間しか寝れてなくて」
+→ 体調変化の質問: value「頭痛がある」, evidence「頭痛があります」
+
+必ず以下のJSON形式で応答してください：
+{
+  "answers": [
+    {
+      "questionId": "Q1",
+      "value": "2週間前から頭痛がある",
+      "evidence": "2週間前から頭痛があります",
+      "symptoms": [{ "name": "頭痛", "onset": "2週間前から" }]
+    },
+    {
+      "questionId": "Q2",
+      "value": "少し寝不足",
+      "evidence": "ちょっと寝足りない",
+      "normalizedValue": "やや不足"
+    }
+  ]
+}
+
+該当する質問がない場合は空配列を返してください：
+{
+  "answers": []
+}`,
+
+  respond: `あなたは優しい医療問診アシスタントです。
+
+現在の質問: {{currentQuestion}}
+
+【あなたの役割】
+1. 患者の回答に対して、優しく丁寧に応答する
+2. 症状に関する質問では、以下の4要素を確認する：
+   - いつから（期間）: 症状の開始時期
+   - どこが（場所）: 痛みや症状の部位
+   - どのように（性質）: 症状の特徴（ズキズキ、チクチク、鈍痛など）
+   - どの程度（強さ）: 痛みの強さ（10段階評価）や頻度
+3. 十分な情報が得られたかを判断する
+
+【重要】症状が複数ある場合の対応:
+- 複数の症状がある場合、各症状について4要素を確認する
+- 例: 「頭痛と熱があるのですね。それぞれいつ頃から感じていますか？」
+- 患者が「頭痛は2週間前から、熱は昨日から」のように答えた場合、次に場所や程度を確認
+
+【応答ルール】
+- 症状の質問: 4要素（いつから、どこが、どのように、どの程度）を段階的に確認
+  - まず「いつから」を確認
+  - 次に「どこが」「どのように」を確認
+  - 最後に「どの程度」を確認
+  - すべての要素が揃ったら needMoreInfo = false
+- その他の質問: 明確な答えが得られたら次へ進む
+- 追加情報が必要な場合: needMoreInfo = true
+- 十分な情報が得られた場合: needMoreInfo = false
+
+必ず以下のJSON形式で応答してください：
+{
+  "reply": "患者への応答文",
+  "emotion": "gentle",
+  "needMoreInfo": true または false,
+  "isComplete": {{isCompleteValue}}
+}
+
+例1（症状の初回回答 - いつから確認）:
+患者「頭痛があります」
+→ {"reply": "頭痛があるのですね。いつ頃から感じていますか？", "emotion": "gentle", "needMoreInfo": true, "isComplete": false}
+
+例2（期間確認後 - 場所と性質確認）:
+患者「2週間前からです」
+→ {"reply": "2週間前からなのですね。どの辺りが、どのように痛みますか？", "emotion": "gentle", "needMoreInfo": true, "isComplete": false}
+
+例3（場所・性質確認後 - 程度確認）:
+患者「頭全体がズキズキと痛みます」
+→ {"reply": "頭全体がズキズキと痛むのですね。痛みの強さは10段階でどのくらいですか？", "emotion": "gentle", "needMoreInfo": true, "isComplete": false}
+
+例4（すべての情報を得た）:
+患者「7くらいです」
+→ {"reply": "わかりました。詳しく教えていただきありがとうございます。", "emotion": "gentle", "needMoreInfo": false, "isComplete": false}
+
+例5（複数症状の場合）:
+患者「頭痛と熱があります」
+→ {"reply": "頭痛と熱があるのですね。それぞれいつ頃から感じていますか？", "emotion": "gentle", "needMoreInfo": true, "isComplete": false}
+
+例6（その他の質問）:
+患者「食欲はあります」
+→ {"reply": "食欲があるのですね。わかりました。", "emotion": "gentle", "needMoreInfo": false, "isComplete": false}`,
+
+  summary: `あなたは医療問診の回答を分析・整理する専門家です。
+以下の会話履歴を分析し、各質問に対する患者の回答を抽出してください。
+
+【重要な注意事項】
+- 患者は質問の順番通りに回答していない場合があります
+- 患者は一度の回答で複数の質問に答えている場合があります
+  例：「最近 2時間しか寝れてなくて頭痛と熱があります」
+  → 睡眠時間（2時間）、症状（頭痛、発熱）の情報が含まれる
+- 会話全体の文脈から、各質問に最も適切な回答を見つけてください
+- 回答が見つからない質問には「回答なし」と記載してください
+- 挨拶や関係のない発言は無視してください
+- 同じ質問に対して複数回の応答がある場合（追加質問で詳細を聞いた場合）、すべての情報を統合して簡潔にまとめてください
+
+【回答のフォーマットルール】
+- 回答は簡潔に、構造化してまとめてください
+- 症状に関する質問の場合、以下の4要素を必ず含めて整理してください：
+  1. いつから（期間）: 症状の開始時期
+  2. どこが（場所）: 痛みや症状の部位
+  3. どのように（性質）: 症状の特徴（ズキズキ、チクチク、鈍痛など）
+  4. どの程度（強さ）: 痛みの強さや頻度
+
+- 症状フォーマット例:
+  「頭痛: [いつから] 2週間前から、[どこが] 頭全体、[どのように] ズキズキと脈打つような痛み、[どの程度] 10段階中7程度
+  発熱: [いつから] 昨日から、[どの程度] 38度
+  倦怠感: [いつから] 3日前から、[どの程度] 常に感じる」
+
+- 複数の症状がある場合は、各症状ごとに改行して整理してください
+- 症状以外の質問（睡眠、食欲、運動など）: 「2時間」「週3回ジム通い」「ストレスなし」のように簡潔に
+- 「よろしくお願いします」などの挨拶は除外してください
+- 情報が不足している要素は省略してください（無理に推測しない）
+- 症状に関する質問では、extractedAnswerに加えて symptoms に症状ごとの構造化記録を含めてください
+  （severityは0〜10の数値、不明な項目は省略。症状以外の質問では symptoms を省略）
+
+【質問リスト】
+{{questionList}}
+
+以下のJSON形式で応答してください：
+{
+  "formattedAnswers": [
+    {
+      "questionId": "質問ID",
+      "questionText": "質問テキスト",
+      "extractedAnswer": "簡潔にまとめた回答（キーワード・要点のみ）",
+      "confidence": "high | medium | low",
+      "symptoms": [
+        { "name": "頭痛", "onset": "2週間前から", "location": "頭全体", "quality": "ズキズキ", "severity": 7, "frequency": "毎日" }
+      ]
+    }
+  ],
+  "summary": "問診全体の簡潔な要約（2-3文）"
+}`,
+};
+
+// {{name}} 形式のプレースホルダーを置換（未定義のものはそのまま残す）
+export function renderPrompt(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    variables[key] !== undefined ? variables[key] : match
+  );
+}
+
+function loadStore(): PromptStore {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('プロンプトテンプレート取得エラー:', error);
+    return {};
+  }
+}
+
+function saveStore(store: PromptStore): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('プロンプトテンプレート保存エラー:', error);
+  }
+}
+
+// バージョン履歴を取得（新しい順）
+export function getPromptHistory(scope: string, stage: PromptStage): PromptTemplateVersion[] {
+  const versions = loadStore()[scope]?.[stage] || [];
+  return [...versions].sort((a, b) => b.version - a.version);
+}
+
+// 新しいバージョンとして保存（保存したバージョンが有効になる）
+export function savePromptVersion(
+  scope: string,
+  stage: PromptStage,
+  body: string,
+  note?: string
+): PromptTemplateVersion {
+  const store = loadStore();
+  const versions = store[scope]?.[stage] || [];
+  const latest = versions.reduce((max, v) => Math.max(max, v.version), 0);
+
+  const newVersion: PromptTemplateVersion = {
+    version: latest + 1,
+    body,
+    note,
+    createdAt: Date.now(),
+  };
+
+  store[scope] = {
+    ...store[scope],
+    [stage]: [...versions, newVersion],
+  };
+  saveStore(store);
+
+  return newVersion;
+}
+
+// 有効なテンプレートを解決（文診表固有 → 共通 → 組み込みの順）
+export function resolvePrompt(questionnaireId: string, stage: PromptStage): ResolvedPrompt {
+  for (const scope of [questionnaireId, DEFAULT_SCOPE]) {
+    const [latest] = getPromptHistory(scope, stage);
+    if (latest) {
+      return { body: latest.body, versionId: `${scope}@${latest.version}` };
+    }
+  }
+
+  return { body: DEFAULT_PROMPT_TEMPLATES[stage], versionId: 'builtin@0' };
+}
+
+// 全段階のテンプレートを解決（セッション開始時に固定する）
+export function resolvePromptSet(questionnaireId: string): ResolvedPromptSet {
+  return {
+    analyze: resolvePrompt(questionnaireId, 'analyze'),
+    respond: resolvePrompt(questionnaireId, 'respond'),
+    summary: resolvePrompt(questionnaireId, 'summary'),
+  };
+}
@@ -0,0 +1,231 @@
+// レッドフラグ（緊急性のある発言）の検出ルール管理（文診表ごとに編集可能）
+import { InterviewLanguage, RedFlagAlert } from '@/types';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '@/lib/languages';
+import { classifyRedFlag } from '@/lib/openai';
+import type { StageSettings } from '@/lib/settings';
+
+// 検出ルール
+export interface RedFlagRule {
+  id: string;
+  label: string; // 例: 胸痛
+  pattern: string; // キーワード（カンマ区切り）または正規表現
+  isRegex: boolean;
+  enabled: boolean;
+}
+
+// スコープ（文診表ID または default）ごとの設定
+export interface RedFlagConfig {
+  rules: RedFlagRule[];
+  useClassifier: boolean; // ルールに一致しない発言もLLMで判定する
+  escalationMessage: string; // 検出時にアバターが読み上げる案内（空欄は共通設定を使用）
+}
+
+type RedFlagStore = Record<string, RedFlagConfig>;
+
+const STORAGE_KEY = 'red_flag_rules';
+
+// 全文診表共通のスコープ
+export const DEFAULT_SCOPE = 'default';
+
+// 組み込みの案内文
+export const DEFAULT_ESCALATION_MESSAGE = LANGUAGES[DEFAULT_LANGUAGE].escalationMessage;
+
+// 組み込みのルール（共通 + 文診表固有）
+// 日本語に続けて、対応言語（英語・中国語・ベトナム語・韓国語）の表現も含める
+export const BUILTIN_RED_FLAG_CONFIGS: RedFlagStore = {
+  [DEFAULT_SCOPE]: {
+    rules: [
+      {
+        id: 'chest-pain',
+        label: '胸痛',
+        pattern: '胸が痛,胸の痛み,胸痛,胸が苦し,胸が締め付け,' +
+          'chest pain,chest hurts,chest is tight,chest tightness,胸口疼,胸口痛,胸闷,đau ngực,tức ngực,가슴이 아프,가슴이 아파,가슴 통증,흉통,가슴이 답답',
+        isRegex: false,
+        enabled: true,
+      },
+      {
+        id: 'dyspnea',
+        label: '呼吸困難',
+        pattern: '息が苦し,息ができな,呼吸が苦し,呼吸ができな,息切れがひど,' +
+          "can't breathe,cannot breathe,short of breath,hard to breathe,trouble breathing,呼吸困难,喘不过气,上不来气,khó thở,không thở được,숨이 차,숨쉬기 힘들,숨을 못 쉬,호흡곤란",
+        isRegex: false,
+        enabled: true,
+      },
+      {
+        id: 'consciousness',
+        label: '意識障害',
+        pattern: '意識を失,気を失,失神,' +
+          'passed out,fainted,lost consciousness,blacked out,晕倒,昏倒,失去意识,晕过去,ngất,bất tỉnh,mất ý thức,기절,의식을 잃,실신',
+        isRegex: false,
+        enabled: true,
+      },
+      {
+        id: 'paralysis',
+        label: '麻痺・言語障害',
+        pattern: '(手|足|顔|体)(が|の)(片側|半分)?.{0,4}(しびれ|動かな|麻痺)|ろれつが回らな|言葉が出な|' +
+          "numb(ness)? on one side|can'?t move my (arm|leg|face)|slurred speech|半身(麻木|不遂)|口齿不清|说不出话|tê (một|nửa) bên|bị liệt|nói ngọng|마비|말이 어눌|발음이 어눌",
+        isRegex: true,
+        enabled: true,
+      },
+      {
+        id: 'bleeding',
+        label: '大量出血・吐血',
+        pattern: '血が止まらな,吐血,血を吐,' +
+          "bleeding won't stop,won't stop bleeding,vomiting blood,coughing up blood,血止不住,咳血,chảy máu không ngừng,nôn ra máu,ho ra máu,피가 멈추지 않,피를 토,토혈",
+        isRegex: false,
+        enabled: true,
+      },
+    ],
+    useClassifier: false,
+    escalationMessage: DEFAULT_ESCALATION_MESSAGE,
+  },
+  'mental-check': {
+    rules: [
+      {
+        id: 'suicidal',
+        label: '希死念慮',
+        pattern: '死にたい,消えたい,自殺,死んでしまいたい,生きていたくない,いなくなりたい,' +
+          'want to die,kill myself,suicide,end my life,想死,自杀,不想活,muốn chết,tự tử,tự sát,죽고 싶,자살,살고 싶지 않',
+        isRegex: false,
+        enabled: true,
+      },
+      {
+        id: 'self-harm',
+        label: '自傷',
+        pattern: '自傷|(手首|腕)を切|self[- ]?harm|cut(ting)? myself|自残|割腕|tự làm hại|rạch tay|자해|손목을 긋',
+        isRegex: true,
+        enabled: true,
+      },
+    ],
+    useClassifier: true,
+    escalationMessage:
+      'つらいお気持ちを話してくださって、ありがとうございます。あなたの安全がいちばん大切です。問診をいったん中断しますので、お近くのスタッフにお声がけください。スタッフがすぐにお話を伺います。',
+  },
+};
+
+const EMPTY_CONFIG: RedFlagConfig = {
+  rules: [],
+  useClassifier: false,
+  escalationMessage: '',
+};
+
+function loadStore(): RedFlagStore {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('レッドフラグ設定取得エラー:', error);
+    return {};
+  }
+}
+
+// スコープの設定を取得（未保存の場合は組み込みの設定）
+export function getRedFlagConfig(scope: string): RedFlagConfig {
+  return loadStore()[scope] || BUILTIN_RED_FLAG_CONFIGS[scope] || EMPTY_CONFIG;
+}
+
+// スコープの設定を保存
+export function saveRedFlagConfig(scope: string, config: RedFlagConfig): void {
+  try {
+    const store = loadStore();
+    store[scope] = config;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('レッドフラグ設定保存エラー:', error);
+  }
+}
+
+// 文診表に適用される設定を解決（ルールは共通 + 文診表固有の両方を適用）
+// 日本語以外の問診では、ルールのキーワードが言い回しを網羅できないためLLM分類器も常に使う
+// 案内文は管理画面で日本語で設定するため、日本語以外の問診ではその言語の組み込みの案内文を使う
+export function resolveRedFlagConfig(questionnaireId: string, language: InterviewLanguage = DEFAULT_LANGUAGE): RedFlagConfig {
+  const common = getRedFlagConfig(DEFAULT_SCOPE);
+  const specific = questionnaireId === DEFAULT_SCOPE ? EMPTY_CONFIG : getRedFlagConfig(questionnaireId);
+
+  return {
+    rules: [...common.rules, ...specific.rules].filter(rule => rule.enabled),
+    useClassifier: common.useClassifier || specific.useClassifier || language !== DEFAULT_LANGUAGE,
+    escalationMessage: language === DEFAULT_LANGUAGE
+      ? specific.escalationMessage || common.escalationMessage || DEFAULT_ESCALATION_MESSAGE
+      : LANGUAGES[language].escalationMessage,
+  };
+}
+
+// 正規表現の構文を検証（エラーがなければnull）
+export function validateRedFlagPattern(rule: RedFlagRule): string | null {
+  if (!rule.pattern.trim()) return 'パターンが空です';
+  if (!rule.isRegex) return null;
+
+  try {
+    new RegExp(rule.pattern);
+    return null;
+  } catch (e) {
+    return `正規表現が不正です: ${(e as Error).message}`;
+  }
+}
+
+// 比較用に全角・半角と空白の違いをそろえる
+function normalize(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, '').toLowerCase();
+}
+
+// 1つのルールに一致した語句を返す（一致しない場合はnull）
+function matchRule(rule: RedFlagRule, message: string): string | null {
+  if (rule.isRegex) {
+    try {
+      return new RegExp(rule.pattern, 'i').exec(message.normalize('NFKC'))?.[0] || null;
+    } catch {
+      console.warn(`レッドフラグルール ${rule.id} の正規表現が不正です:`, rule.pattern);
+      return null;
+    }
+  }
+
+  const normalized = normalize(message);
+  const keyword = rule.pattern
+    .split(/[,、]/)
+    .map(k => k.trim())
+    .find(k => k && normalized.includes(normalize(k)));
+  return keyword || null;
+}
+
+// キーワード・正規表現ルールで判定（最初に一致したルール）
+export function matchRedFlagRules(message: string, rules: RedFlagRule[]): RedFlagAlert | null {
+  for (const rule of rules) {
+    const matchedText = matchRule(rule, message);
+    if (matchedText) {
+      return {
+        source: 'rule',
+        ruleId: rule.id,
+        label: rule.label,
+        matchedText,
+        message,
+        detectedAt: Date.now(),
+      };
+    }
+  }
+  return null;
+}
+
+// ルールで判定し、一致しない場合は設定に応じてLLM分類器でも判定する
+export async function detectRedFlag(
+  message: string,
+  config: RedFlagConfig,
+  settings?: StageSettings,
+  signal?: AbortSignal
+): Promise<RedFlagAlert | null> {
+  const matched = matchRedFlagRules(message, config.rules);
+  if (matched || !config.useClassifier) return matched;
+
+  const result = await classifyRedFlag(message, config.rules.map(rule => rule.label), settings, signal);
+  if (!result.isRedFlag) return null;
+
+  return {
+    source: 'classifier',
+    label: result.label || '要確認',
+    matchedText: result.reason,
+    message,
+    detectedAt: Date.now(),
+  };
+}
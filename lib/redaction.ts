@@ -0,0 +1,315 @@
+// 個人情報のマスキング（氏名・電話番号・住所などをLLMに送る前に伏せ字に置き換え、応答では元に戻す）
+// 伏せ字と元の値の対応は問診セッションの間だけメモリ上に保持し、監査ログには元の値を残さない
+import type { LLMMessage, LLMProvider, LLMStage } from '@/lib/llm';
+
+export type PIIType = 'name' | 'phone' | 'postalCode' | 'myNumber' | 'insuranceNumber' | 'email' | 'address';
+
+// 伏せ字の表記（例: [氏名1]）
+export const PII_LABELS: Record<PIIType, string> = {
+  name: '氏名',
+  phone: '電話番号',
+  postalCode: '郵便番号',
+  myNumber: 'マイナンバー',
+  insuranceNumber: '保険証番号',
+  email: 'メールアドレス',
+  address: '住所',
+};
+
+// 監査ログの1件（どの段階で何を伏せたか）
+export interface RedactionLogEntry {
+  sessionId: string;
+  stage: LLMStage;
+  type: PIIType;
+  placeholder: string;
+  timestamp: number;
+}
+
+const STORAGE_KEY = 'pii_redaction_log';
+// 監査ログの保持件数（超えた分は古いものから削除）
+const MAX_LOG_ENTRIES = 1000;
+
+const DIGIT = '[0-9０-９]';
+const SEPARATOR = '[-‐－ー−\\s]';
+const KANJI = '[\\u4E00-\\u9FFF々〆ヶ]';
+const KATAKANA = '[\\u30A1-\\u30FAー]';
+const HONORIFIC = '(?=\\s?(?:さん|様|さま|くん|君|ちゃん|先生))';
+// 1文字の姓（林さん など）は「赤ちゃん」「同様」などと区別できる敬称に限る
+const SINGLE_KANJI_HONORIFIC = '(?=\\s?(?:さん|くん|先生))';
+// 「同様」「多様」「模様」などの「様」は敬称ではない
+const NOT_SAMA_WORD = '(?!(?<=[同多模仕異一有])\\s?様)';
+// 氏名の直前に続けて書かれやすい言葉（「昨日田中さん」の「昨日」は症状の経過のため伏せない）
+const NAME_PRECEDING_WORDS =
+  '一昨日|昨日|今日|明日|今朝|昨夜|昨晩|先日|先週|今週|先月|今月|去年|昨年|今年|最近|以前|' +
+  '上司|同僚|部長|課長|社長|店長|友人|主治医|担当|近所|隣|病院|医院|会社|学校';
+// 漢字の氏名の左端（漢字が続く途中からは始めない。直前の言葉に続く場合はその言葉の後から）
+const KANJI_NAME_START = `(?:(?<!${KANJI})|(?<=${NAME_PRECEDING_WORDS}))(?!(?:${NAME_PRECEDING_WORDS})${KANJI}{2})`;
+
+// 検出パターン（1番目のグループは残す前置き、2番目のグループを伏せ字にする）
+// 番号は前後に数字が続かないものに限り、文脈のある保険証番号・桁数の多いマイナンバーから順に照合する
+const PII_PATTERNS: { type: PIIType; pattern: RegExp }[] = [
+  {
+    type: 'email',
+    pattern: /()([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g,
+  },
+  {
+    type: 'insuranceNumber',
+    pattern: new RegExp(`((?:保険証|被保険者|保険者)[^0-9０-９。]{0,8})(${DIGIT}(?:${DIGIT}|${SEPARATOR}|・){2,}${DIGIT})`, 'g'),
+  },
+  {
+    type: 'myNumber',
+    pattern: new RegExp(`(^|[^0-9０-９])((?:${DIGIT}${SEPARATOR}?){11}${DIGIT})(?!${DIGIT})`, 'g'),
+  },
+  {
+    type: 'phone',
+    pattern: new RegExp(`(^|[^0-9０-９])([0０](?:${DIGIT}${SEPARATOR}?){8,9}${DIGIT})(?!${DIGIT})`, 'g'),
+  },
+  {
+    type: 'postalCode',
+    pattern: new RegExp(`(〒\\s?|^|[^0-9０-９])(${DIGIT}{3}[-‐－ー−]${DIGIT}{4})(?!${DIGIT})`, 'g'),
+  },
+  {
+    type: 'address',
+    pattern: new RegExp(
+      `()((?:北海道|東京都|京都府|大阪府|${KANJI}{2,3}県)?(?:${KANJI}|${KATAKANA}){1,8}[市区町村](?:${KANJI}|${KATAKANA}){0,12}` +
+      `${DIGIT}+(?:丁目|番地|番|号|[-‐－ー−]${DIGIT}+)*号?)`,
+      'g'
+    ),
+  },
+  {
+    type: 'name',
+    pattern: /((?:名前|氏名)は\s?)([^\s、。,.!?！？]{2,12}?)(?=\s?(?:です|でございます|と申します|といいます|と言います))/g,
+  },
+  {
+    type: 'name',
+    pattern: /()([^\s、。,.!?！？はがを]{2,12}?)(?=\s?と申します)/g,
+  },
+  {
+    type: 'name',
+    pattern: new RegExp(
+      `()(${KANJI_NAME_START}${KANJI}{2,5}|(?<!${KATAKANA})${KATAKANA}{2,10})${HONORIFIC}${NOT_SAMA_WORD}`,
+      'g'
+    ),
+  },
+  {
+    type: 'name',
+    pattern: new RegExp(`()((?<!${KANJI})${KANJI})${SINGLE_KANJI_HONORIFIC}`, 'g'),
+  },
+];
+
+// 敬称が付いても個人名ではない言葉（家族・職種など）
+const NON_NAME_WORDS = new Set([
+  '母', '父', '兄', '姉', '弟', '妹', '奥', '娘', '息子', '子', '旦那', '主人', '夫', '妻', '嫁', '婿', '親',
+  '祖母', '祖父', '孫', '叔母', '叔父', '伯母', '伯父', '義母', '義父', '家族',
+  '皆', '客', '神', '王', '殿', '患者', '医者', '看護師', '薬剤師', '先生', '主治医', '歯医者', '受付',
+  '担当', '店員', '隣', '近所', '相手', '苦労', '世話', '同僚', '上司', '部下', '友達', '友人',
+  'ナース', 'ドクター', 'ヘルパー', 'ケアマネ', 'スタッフ',
+  '仏', '大家', '大工', '運転手', '駅員', '店長', '社長', '部長', '課長', '先輩', '後輩', '奥様',
+]);
+
+// 外部の音声合成に送る文での読み替え（伏せた値の代わりに読み上げる言葉）
+const SPOKEN_PII: Record<PIIType, string> = {
+  name: '患者',
+  phone: 'その番号',
+  postalCode: 'その番号',
+  myNumber: 'その番号',
+  insuranceNumber: 'その番号',
+  email: 'そのアドレス',
+  address: 'そのご住所',
+};
+
+const LABEL_TYPES = new Map(Object.entries(PII_LABELS).map(([type, label]) => [label, type as PIIType]));
+
+// 伏せ字（[氏名1] など）
+const PLACEHOLDER_PATTERN = new RegExp(`\\[(?:${Object.values(PII_LABELS).join('|')})\\d+\\]`, 'g');
+// ストリーミング中に途中で区切られた伏せ字を待つ最大文字数
+const MAX_PLACEHOLDER_LENGTH = 12;
+
+// 対話AIへの指示（伏せ字を含むリクエストにのみ付ける）
+const PLACEHOLDER_INSTRUCTION = '【個人情報】[氏名1]・[電話番号1] のような表記は、個人情報を伏せたものです。言い換えたり中身を推測したりせず、必要な場合はそのままの表記で使うこと。';
+
+export interface RedactionResult {
+  text: string;
+  detections: { type: PIIType; placeholder: string }[];
+}
+
+// 問診セッション単位のマスキング（同じ値には常に同じ伏せ字を使う）
+export interface PIIRedactor {
+  sessionId: string;
+  redact(text: string): RedactionResult;
+  restore(text: string): string;
+  // 外部の音声合成に送る文（伏せた値・新たに見つかった個人情報を一般的な言葉に読み替える）
+  maskForSpeech(text: string): string;
+  // 伏せた値・個人情報を含む文か（端末に残すかの判定）
+  containsPII(text: string): boolean;
+}
+
+export function createPIIRedactor(sessionId: string): PIIRedactor {
+  const placeholders = new Map<string, string>(); // 元の値 → 伏せ字
+  const originals = new Map<string, string>(); // 伏せ字 → 元の値
+  const counts: Partial<Record<PIIType, number>> = {};
+  // 同じ文（会話履歴など）は毎回照合し直さない
+  const results = new Map<string, RedactionResult>();
+
+  const placeholderFor = (type: PIIType, value: string): string => {
+    const existing = placeholders.get(value);
+    if (existing) return existing;
+
+    counts[type] = (counts[type] || 0) + 1;
+    const placeholder = `[${PII_LABELS[type]}${counts[type]}]`;
+    placeholders.set(value, placeholder);
+    originals.set(placeholder, value);
+    return placeholder;
+  };
+
+  const redact = (text: string): RedactionResult => {
+    const cached = results.get(text);
+    if (cached) return cached;
+
+    const detections: RedactionResult['detections'] = [];
+    let redacted = text;
+
+    for (const { type, pattern } of PII_PATTERNS) {
+      redacted = redacted.replace(pattern, (match, prefix: string, value: string) => {
+        // 伏せ字を含む部分・家族や職種の呼び方は対象外
+        if (value.includes('[') || (type === 'name' && NON_NAME_WORDS.has(value))) {
+          return match;
+        }
+        const placeholder = placeholderFor(type, value);
+        detections.push({ type, placeholder });
+        return `${prefix}${placeholder}`;
+      });
+    }
+
+    const result = { text: redacted, detections };
+    results.set(text, result);
+    return result;
+  };
+
+  return {
+    sessionId,
+    redact,
+    restore(text) {
+      return text.replace(PLACEHOLDER_PATTERN, placeholder => originals.get(placeholder) ?? placeholder);
+    },
+    maskForSpeech(text) {
+      // 応答で元に戻した値は、文脈によらず伏せ字に戻す（1文字の値は他の語を巻き込むため照合のみ）
+      let masked = text;
+      placeholders.forEach((placeholder, value) => {
+        if (value.length >= 2) {
+          masked = masked.split(value).join(placeholder);
+        }
+      });
+      return redact(masked).text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+        const type = LABEL_TYPES.get(placeholder.replace(/^\[|\d+\]$/g, ''));
+        return type ? SPOKEN_PII[type] : placeholder;
+      });
+    },
+    containsPII(text) {
+      return [...placeholders.keys()].some(value => text.includes(value)) || redact(text).detections.length > 0;
+    },
+  };
+}
+
+// 問診中のマスキング（問診開始時に設定し、終了時に解除）
+let sessionRedactor: PIIRedactor | null = null;
+
+export function getSessionRedactor(): PIIRedactor | null {
+  return sessionRedactor;
+}
+
+export function setSessionRedactor(redactor: PIIRedactor | null): void {
+  sessionRedactor = redactor;
+}
+
+// 監査ログに記録済みの伏せ字（段階ごと、会話履歴を送るたびに同じ記録を重ねないように）
+const loggedPlaceholders = new WeakMap<PIIRedactor, Set<string>>();
+
+// リクエストのメッセージを伏せ字に置き換え、初めて伏せた内容を監査ログに記録
+function redactMessages(redactor: PIIRedactor, stage: LLMStage, messages: LLMMessage[]): LLMMessage[] {
+  const logged = loggedPlaceholders.get(redactor) || new Set<string>();
+  loggedPlaceholders.set(redactor, logged);
+
+  const entries: RedactionLogEntry[] = [];
+  let hasPlaceholder = false;
+  const redacted = messages.map(message => {
+    const { text, detections } = redactor.redact(message.content);
+    detections.forEach(({ type, placeholder }) => {
+      hasPlaceholder = true;
+      const key = `${stage}:${placeholder}`;
+      if (logged.has(key)) return;
+      logged.add(key);
+      entries.push({ sessionId: redactor.sessionId, stage, type, placeholder, timestamp: Date.now() });
+    });
+    return { ...message, content: text };
+  });
+
+  if (!hasPlaceholder) return redacted;
+  appendRedactionLog(entries);
+
+  // 伏せ字の扱いをシステムメッセージで伝える
+  return redacted.map((message, index) =>
+    index === 0 && message.role === 'system'
+      ? { ...message, content: `${message.content}\n\n${PLACEHOLDER_INSTRUCTION}` }
+      : message
+  );
+}
+
+// プロバイダーを包み、送信前に伏せ字へ置き換えて応答では元の値に戻す
+export function withRedaction(provider: LLMProvider, redactor: PIIRedactor): LLMProvider {
+  return {
+    name: provider.name,
+    async complete(request) {
+      const completion = await provider.complete({
+        ...request,
+        messages: redactMessages(redactor, request.stage, request.messages),
+      });
+      return { ...completion, text: redactor.restore(completion.text) };
+    },
+    async stream(request, onDelta) {
+      // 伏せ字が差分の途中で区切られた場合は、閉じ括弧が届くまで渡さずに待つ
+      let pending = '';
+      const completion = await provider.stream({
+        ...request,
+        messages: redactMessages(redactor, request.stage, request.messages),
+      }, (delta) => {
+        pending += delta;
+        const open = pending.lastIndexOf('[');
+        const isIncomplete = open >= 0 && !pending.includes(']', open) && pending.length - open < MAX_PLACEHOLDER_LENGTH;
+        const ready = isIncomplete ? pending.slice(0, open) : pending;
+        pending = pending.slice(ready.length);
+        if (ready) onDelta(redactor.restore(ready));
+      });
+      if (pending) onDelta(redactor.restore(pending));
+      return { ...completion, text: redactor.restore(completion.text) };
+    },
+  };
+}
+
+// 監査ログを取得（新しい順）
+export function getRedactionLog(sessionId?: string): RedactionLogEntry[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    const entries: RedactionLogEntry[] = data ? JSON.parse(data) : [];
+    return entries
+      .filter(entry => !sessionId || entry.sessionId === sessionId)
+      .reverse();
+  } catch (error) {
+    console.error('個人情報マスキングログ取得エラー:', error);
+    return [];
+  }
+}
+
+// 監査ログに追記
+function appendRedactionLog(entries: RedactionLogEntry[]): void {
+  if (typeof window === 'undefined' || entries.length === 0) return;
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    const existing: RedactionLogEntry[] = data ? JSON.parse(data) : [];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...existing, ...entries].slice(-MAX_LOG_ENTRIES)));
+  } catch (error) {
+    console.error('個人情報マスキングログ保存エラー:', error);
+  }
+}
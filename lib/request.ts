@@ -0,0 +1,140 @@
+// AI呼び出し（LLM・TTS）共通のリトライ・タイムアウト・キャンセル
+
+// 初回リトライまでの待機時間（ミリ秒、以降は2倍ずつ増加）
+const BASE_RETRY_DELAY = 500;
+// 指数バックオフの上限
+const MAX_RETRY_DELAY = 8000;
+// Retry-After に従う場合の上限
+const MAX_RETRY_AFTER = 30000;
+
+// HTTPエラー（ステータスとRetry-Afterでリトライ可否・待機時間を判定する）
+export class HttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// タイムアウト（リトライ対象）
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+// 呼び出し元による中断か（新しいメッセージの送信・ページ離脱など）
+export function isAbortError(error: unknown): boolean {
+  return (error as Error | null)?.name === 'AbortError';
+}
+
+// 一時的な障害でリトライすべきエラーか
+export function isRetryableError(error: unknown): boolean {
+  // レート制限・タイムアウト・サーバーエラー
+  if (error instanceof HttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  if (error instanceof RequestTimeoutError) {
+    return true;
+  }
+  // ネットワークエラー
+  return error instanceof TypeError && error.message.includes('fetch');
+}
+
+// Retry-After ヘッダー（秒数 または HTTP日付）をミリ秒に変換
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// 中断可能な待機
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 次のリトライまでの待機時間（Retry-After優先、なければ指数バックオフ + ジッター）
+function getRetryDelay(error: unknown, attempt: number): number {
+  if (error instanceof HttpError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, MAX_RETRY_AFTER);
+  }
+
+  const backoff = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt);
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+export interface RetryOptions {
+  retries: number; // 初回を除く最大リトライ回数
+  signal?: AbortSignal;
+  isRetryable?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+// リトライ付きで実行（中断された場合は即座にエラーを返す）
+export async function withRetry<T>(
+  run: (attempt: number) => Promise<T>,
+  { retries, signal, isRetryable = isRetryableError, onRetry }: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (isAbortError(error) || attempt >= retries || !isRetryable(error)) throw error;
+
+      const delayMs = getRetryDelay(error, attempt);
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+// タイムアウト付きで実行（呼び出し元のシグナルで中断された場合も同じシグナルで中断）
+export async function withTimeout<T>(
+  timeoutMs: number | undefined,
+  signal: AbortSignal | undefined,
+  run: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  signal?.throwIfAborted();
+  if (!timeoutMs && !signal) return run();
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs
+    ? setTimeout(() => controller.abort(new RequestTimeoutError(timeoutMs)), timeoutMs)
+    : undefined;
+
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
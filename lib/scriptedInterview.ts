@@ -0,0 +1,100 @@
+// スクリプト問診（LLMを使わず、文診表の質問を順番に読み上げて回答を記録する）
+// 案内・回答方法は患者の言語で読み上げる（質問文・選択肢はAIなしでは翻訳できないため文診表のまま）
+import { Answer, FormattedAnswer, InterviewLanguage, NormalizedValue, Question, SummaryResponse } from '@/types';
+import {
+  findNormalizedValue,
+  formatOptions,
+  isNormalizedQuestion,
+  normalizeAnswer,
+} from '@/lib/answerNormalization';
+import { DEFAULT_LANGUAGE, LANGUAGES, joinSentences } from '@/lib/languages';
+
+// AI応答がこの回数連続で失敗したらスクリプト問診に切り替える
+export const AI_FAILURE_THRESHOLD = 2;
+
+// 選択肢・スケールに当てはまらない回答を聞き直す回数（超えた場合は発話をそのまま記録）
+const MAX_FORMAT_RETRIES = 1;
+
+// 1ターン分の処理結果
+export interface ScriptedTurnResult {
+  answer: string | null; // 記録する回答（聞き直す場合はnull）
+  normalizedValue?: NormalizedValue; // 選択肢・スケールに当てはめた値
+  reply: string; // アバターの発話
+  nextIndex: number; // 次の質問のインデックス（-1は全質問に回答済み）
+}
+
+// 回答方法の案内（自由記述は空文字）
+function formatAnswerInstruction(question: Question, language: InterviewLanguage): string {
+  if (!isNormalizedQuestion(question)) return '';
+  const { scripted } = LANGUAGES[language];
+  if (question.type === 'scale') return scripted.scaleInstruction;
+  const template = question.type === 'multiChoice' ? scripted.multiChoiceInstruction : scripted.choiceInstruction;
+  return template.replace('{options}', formatOptions(question.options!));
+}
+
+// 読み上げる質問文（選択肢・数値の回答方法を含める）
+export function formatScriptedQuestion(question: Question, language: InterviewLanguage = DEFAULT_LANGUAGE): string {
+  return joinSentences(language, question.text, formatAnswerInstruction(question, language));
+}
+
+// 次に聞く未回答の質問（fromIndex以降 → 先頭から、なければ -1）
+export function findNextQuestionIndex(questions: Question[], fromIndex: number, answeredIds: string[]): number {
+  const indices = [...questions.keys()];
+  const order = [...indices.slice(fromIndex), ...indices.slice(0, fromIndex)];
+
+  return order.find(i => !answeredIds.includes(questions[i].id)) ?? -1;
+}
+
+// 回答を受け取り、記録する値と次の発話を決める
+// retryCount: 現在の質問で回答が形式に当てはまらず聞き直した回数
+export function runScriptedTurn(
+  questions: Question[],
+  currentIndex: number,
+  answeredIds: string[],
+  userAnswer: string,
+  retryCount: number,
+  language: InterviewLanguage = DEFAULT_LANGUAGE
+): ScriptedTurnResult {
+  const question = questions[currentIndex];
+  const { scripted } = LANGUAGES[language];
+  const value = userAnswer.trim();
+  const normalizedValue = normalizeAnswer(question, value) ?? undefined;
+
+  if (isNormalizedQuestion(question) && normalizedValue === undefined && retryCount < MAX_FORMAT_RETRIES) {
+    return {
+      answer: null,
+      reply: joinSentences(language, scripted.retry, formatAnswerInstruction(question, language)),
+      nextIndex: currentIndex,
+    };
+  }
+
+  const nextIndex = findNextQuestionIndex(questions, currentIndex + 1, [...answeredIds, question.id]);
+  return {
+    answer: value,
+    normalizedValue,
+    reply: nextIndex < 0
+      ? scripted.complete
+      : joinSentences(language, scripted.next, formatScriptedQuestion(questions[nextIndex], language)),
+    nextIndex,
+  };
+}
+
+// 記録した回答から要約画面用のデータを作成（LLMを使わない）
+export function buildScriptedSummary(questions: Question[], answers: Answer[]): SummaryResponse {
+  const formattedAnswers: FormattedAnswer[] = questions.map(question => {
+    const values = answers.filter(a => a.questionId === question.id).map(a => a.answer);
+    const normalizedValue = findNormalizedValue(answers, question.id);
+    return {
+      questionId: question.id,
+      questionText: question.text,
+      extractedAnswer: values.length > 0 ? values.join('\n') : '回答なし',
+      confidence: values.length > 0 ? 'high' : 'low',
+      ...(normalizedValue !== undefined && { normalizedValue }),
+    };
+  });
+
+  return {
+    formattedAnswers,
+    summary: 'スクリプト問診（AIを使用しない形式）で記録した回答です。',
+  };
+}
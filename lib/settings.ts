@@ -0,0 +1,114 @@
+import { DEFAULT_MODEL, LLMStage } from '@/lib/llm';
+import { InterviewMode } from '@/types';
+
+// 段階ごとの生成設定
+export interface StageSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number; // 1回の呼び出しのタイムアウト
+  retries: number; // 失敗時の再試行回数
+}
+
+export type AISettings = Record<LLMStage, StageSettings>;
+
+// 文診表ごとの上書き（指定した項目のみ）
+export type AISettingsOverride = Partial<Record<LLMStage, Partial<StageSettings>>>;
+
+// 保存形式: 共通設定 + 文診表IDごとの上書き
+export interface AISettingsStore {
+  global: AISettings;
+  overrides: Record<string, AISettingsOverride>;
+  interviewMode: InterviewMode; // 問診の進め方（AI / スクリプト）
+  interviewModeOverrides: Record<string, InterviewMode>;
+}
+
+const STORAGE_KEY = 'ai_settings';
+
+export const AI_STAGES: LLMStage[] = ['analyze', 'respond', 'summary', 'memory', 'redflag'];
+
+export const AI_STAGE_LABELS: Record<LLMStage, string> = {
+  analyze: '回答分析（1段階AI）',
+  respond: '対話生成（2段階AI）',
+  summary: '要約',
+  memory: '会話メモリ圧縮',
+  redflag: 'レッドフラグ判定',
+};
+
+// デフォルト設定
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  analyze: { model: DEFAULT_MODEL, temperature: 0.1, maxTokens: 400, timeoutMs: 15000, retries: 1 },
+  respond: { model: DEFAULT_MODEL, temperature: 0.4, maxTokens: 1024, timeoutMs: 30000, retries: 2 },
+  summary: { model: DEFAULT_MODEL, temperature: 0.2, maxTokens: 2048, timeoutMs: 60000, retries: 1 },
+  memory: { model: DEFAULT_MODEL, temperature: 0.1, maxTokens: 512, timeoutMs: 20000, retries: 1 },
+  redflag: { model: DEFAULT_MODEL, temperature: 0, maxTokens: 200, timeoutMs: 10000, retries: 1 },
+};
+
+export const INTERVIEW_MODE_LABELS: Record<InterviewMode, string> = {
+  ai: 'AI問診',
+  scripted: 'スクリプト問診（AIを使用しない）',
+};
+
+const EMPTY_STORE: AISettingsStore = {
+  global: DEFAULT_AI_SETTINGS,
+  overrides: {},
+  interviewMode: 'ai',
+  interviewModeOverrides: {},
+};
+
+// 保存済みの共通設定をデフォルトに重ねる（後から追加された項目にも対応）
+function withDefaults(global: Partial<Record<LLMStage, Partial<StageSettings>>> = {}): AISettings {
+  return AI_STAGES.reduce((settings, stage) => {
+    settings[stage] = { ...DEFAULT_AI_SETTINGS[stage], ...global[stage] };
+    return settings;
+  }, {} as AISettings);
+}
+
+// 設定を取得
+export function getAISettingsStore(): AISettingsStore {
+  if (typeof window === 'undefined') {
+    return EMPTY_STORE;
+  }
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return EMPTY_STORE;
+
+    const stored: Partial<AISettingsStore> = JSON.parse(data);
+    return {
+      global: withDefaults(stored.global),
+      overrides: stored.overrides || {},
+      interviewMode: stored.interviewMode || 'ai',
+      interviewModeOverrides: stored.interviewModeOverrides || {},
+    };
+  } catch (error) {
+    console.error('AI設定取得エラー:', error);
+    return EMPTY_STORE;
+  }
+}
+
+// 設定を保存
+export function saveAISettingsStore(store: AISettingsStore): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('AI設定保存エラー:', error);
+  }
+}
+
+// 文診表に適用される設定を解決（共通設定 + 文診表ごとの上書き）
+export function resolveAISettings(questionnaireId: string): AISettings {
+  const { global, overrides } = getAISettingsStore();
+  const override = overrides[questionnaireId] || {};
+
+  return AI_STAGES.reduce((settings, stage) => {
+    settings[stage] = { ...global[stage], ...override[stage] };
+    return settings;
+  }, {} as AISettings);
+}
+
+// 文診表に適用される問診の進め方を解決
+export function resolveInterviewMode(questionnaireId: string): InterviewMode {
+  const { interviewMode, interviewModeOverrides } = getAISettingsStore();
+  return interviewModeOverrides[questionnaireId] || interviewMode;
+}
@@ -0,0 +1,90 @@
+// ストリーミング応答の逐次処理ユーティリティ
+
+// JSONエスケープシーケンスの対応表
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+// 生成途中のJSONテキストから指定フィールドの文字列値を取り出す
+// 例: '{"reply": "こんにちは。今日は' → { text: 'こんにちは。今日は', done: false }
+export function extractPartialStringField(jsonText: string, field: string): { text: string; done: boolean } {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(jsonText);
+  if (!match) {
+    return { text: '', done: false };
+  }
+
+  let text = '';
+  let i = match.index + match[0].length;
+
+  while (i < jsonText.length) {
+    const char = jsonText[i];
+
+    if (char === '"') {
+      return { text, done: true };
+    }
+
+    if (char === '\\') {
+      const next = jsonText[i + 1];
+      // エスケープの途中で途切れている場合は次のチャンクを待つ
+      if (next === undefined) break;
+
+      if (next === 'u') {
+        const hex = jsonText.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        text += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+
+      text += ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+
+    text += char;
+    i++;
+  }
+
+  return { text, done: false };
+}
+
+// 文の区切り（句点・感嘆符・疑問符・改行）
+const SENTENCE_END = /[。．！？!?\n]/;
+
+// 増えていくテキストから完成した文を順に取り出す
+export function createSentenceSplitter(onSentence: (sentence: string) => void) {
+  let emittedLength = 0;
+
+  const emit = (sentence: string) => {
+    const trimmed = sentence.trim();
+    if (trimmed) {
+      onSentence(trimmed);
+    }
+  };
+
+  return {
+    // これまでに生成された全文を渡す
+    push(fullText: string) {
+      let start = emittedLength;
+      for (let i = emittedLength; i < fullText.length; i++) {
+        if (SENTENCE_END.test(fullText[i])) {
+          emit(fullText.slice(start, i + 1));
+          start = i + 1;
+        }
+      }
+      emittedLength = start;
+    },
+    // 生成完了時に残りのテキストを出力
+    flush(fullText: string) {
+      emit(fullText.slice(emittedLength));
+      emittedLength = fullText.length;
+    },
+  };
+}
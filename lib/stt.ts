@@ -0,0 +1,307 @@
+// 音声認識（STT）のバックエンド
+// ブラウザの音声認識（Web Speech API）に対応していない環境では、MediaRecorderで録音した音声を
+// 文字起こしサーバー（OpenAI・ローカルのWhisper等）に送って認識する
+import { STTProviderId } from '@/types';
+import { HttpError, isAbortError, parseRetryAfter } from '@/lib/request';
+
+// 'auto' はブラウザの対応状況から選ぶ（Web Speech API → 録音して文字起こし）
+export type STTProviderSetting = 'auto' | STTProviderId;
+
+export interface STTSettings {
+  provider: STTProviderSetting;
+  model: string; // 文字起こしのモデル（whisper-1 など）
+  endpoint: string; // ローカルの文字起こしサーバーのURL
+}
+
+// 認識結果（Web Speech APIの結果と同じ形）
+export interface STTResult {
+  transcript: string;
+  isFinal: boolean;
+}
+
+// 音声認識エンジン（useSpeechRecognitionが利用）
+export interface STTEngine {
+  // 話している途中の結果を返す（Web Speech API）か、発話の終了後にまとめて文字起こしするか
+  readonly streaming: boolean;
+  start(): void;
+  // 聞き取りを終了（文字起こし前の音声は破棄）
+  stop(): void;
+  // 録音した音声を文字起こしする（発話の終了時、streaming のエンジンでは stop と同じ）
+  finish(): void;
+  onstart: (() => void) | null;
+  onresult: ((results: STTResult[], resultIndex: number) => void) | null;
+  onerror: ((error: string) => void) | null;
+  onend: (() => void) | null;
+}
+
+const STORAGE_KEY = 'stt_settings';
+
+export const STT_PROVIDER_LABELS: Record<STTProviderSetting, string> = {
+  auto: '自動（ブラウザの対応状況から選択）',
+  webSpeech: 'ブラウザの音声認識（Web Speech API）',
+  openai: 'OpenAIの文字起こし（録音して送信）',
+  http: 'ローカルの文字起こしサーバー（録音して送信）',
+};
+
+// NEXT_PUBLIC_STT_HTTP_URL: ローカルの文字起こしサーバーの既定のURL
+export const DEFAULT_STT_SETTINGS: STTSettings = {
+  provider: 'auto',
+  model: 'whisper-1',
+  endpoint: process.env.NEXT_PUBLIC_STT_HTTP_URL || 'http://localhost:9000/v1/audio/transcriptions',
+};
+
+// 文字起こしのタイムアウト（ミリ秒）
+const TRANSCRIBE_TIMEOUT_MS = 30000;
+
+// 設定を取得
+export function getSTTSettings(): STTSettings {
+  if (typeof window === 'undefined') return DEFAULT_STT_SETTINGS;
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    return data ? { ...DEFAULT_STT_SETTINGS, ...JSON.parse(data) } : DEFAULT_STT_SETTINGS;
+  } catch (error) {
+    console.error('音声認識設定取得エラー:', error);
+    return DEFAULT_STT_SETTINGS;
+  }
+}
+
+// 設定を保存
+export function saveSTTSettings(settings: STTSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('音声認識設定保存エラー:', error);
+  }
+}
+
+function getSpeechRecognitionClass(): any {
+  if (typeof window === 'undefined') return null;
+  return (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+}
+
+// ブラウザの音声認識に対応しているか
+export function isWebSpeechSupported(): boolean {
+  return !!getSpeechRecognitionClass();
+}
+
+// マイクの録音に対応しているか
+export function isRecordingSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof MediaRecorder !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia;
+}
+
+// 設定とブラウザの対応状況から使用するプロバイダーを決める（どれも使えない場合は null）
+// 指定したプロバイダーに対応していない場合は自動選択に切り替える
+export function resolveSTTProvider(setting: STTProviderSetting): STTProviderId | null {
+  if (setting === 'webSpeech' && isWebSpeechSupported()) return 'webSpeech';
+  if ((setting === 'openai' || setting === 'http') && isRecordingSupported()) return setting;
+
+  if (isWebSpeechSupported()) return 'webSpeech';
+  if (isRecordingSupported()) return 'openai';
+  return null;
+}
+
+// ロケール（ja-JP）から文字起こしAPIの言語コード（ja）
+function toLanguageCode(locale: string): string {
+  return locale.split('-')[0];
+}
+
+// 録音データのファイル名（文字起こしAPIは拡張子で形式を判定する）
+function toFileName(audio: Blob): string {
+  if (audio.type.includes('mp4')) return 'speech.mp4';
+  if (audio.type.includes('ogg')) return 'speech.ogg';
+  return 'speech.webm';
+}
+
+// 録音した音声を文字起こし（OpenAIはサーバー側プロキシ経由、ローカルサーバーは直接）
+// いずれもOpenAI互換の形式: multipart/form-data で file・model・language を送り、{ text } を受け取る
+export async function transcribeAudio(
+  audio: Blob,
+  provider: 'openai' | 'http',
+  settings: STTSettings,
+  locale: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const form = new FormData();
+  form.append('file', audio, toFileName(audio));
+  form.append('model', settings.model);
+  form.append('language', toLanguageCode(locale));
+
+  const response = await fetch(provider === 'openai' ? '/api/transcribe' : settings.endpoint, {
+    method: 'POST',
+    body: form,
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new HttpError(
+      response.status,
+      `Transcription API error: ${response.statusText}`,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+
+  const data: { text?: string } = await response.json();
+  return data.text || '';
+}
+
+// ブラウザの音声認識（Web Speech API）
+function createWebSpeechEngine(locale: string): STTEngine {
+  const SpeechRecognition = getSpeechRecognitionClass();
+  const recognition = new SpeechRecognition();
+  recognition.lang = locale;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.maxAlternatives = 1;
+
+  const engine: STTEngine = {
+    streaming: true,
+    start: () => recognition.start(),
+    stop: () => recognition.stop(),
+    finish: () => recognition.stop(),
+    onstart: null,
+    onresult: null,
+    onerror: null,
+    onend: null,
+  };
+
+  recognition.onstart = () => engine.onstart?.();
+  recognition.onresult = (event: any) => {
+    const results: STTResult[] = Array.from(event.results, (result: any) => ({
+      transcript: result[0].transcript,
+      isFinal: result.isFinal,
+    }));
+    engine.onresult?.(results, event.resultIndex);
+  };
+  recognition.onerror = (event: any) => engine.onerror?.(event.error);
+  recognition.onend = () => engine.onend?.();
+
+  return engine;
+}
+
+// 録音して文字起こし（MediaRecorder）
+// 発話の終了（finish）で録音を止めて送信し、文字起こしの結果を1つの確定結果として返す
+function createRecordingEngine(provider: 'openai' | 'http', settings: STTSettings, locale: string): STTEngine {
+  let recorder: MediaRecorder | null = null;
+  let stream: MediaStream | null = null;
+  let chunks: Blob[] = [];
+  let shouldTranscribe = false;
+  // start・stop のたびに増やし、マイクの許可待ちの間に停止・再開された古い要求の結果は破棄する
+  let generation = 0;
+  let requesting = false; // マイクの許可待ち
+  let controller: AbortController | null = null;
+
+  const releaseMicrophone = () => {
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    recorder = null;
+  };
+
+  const transcribe = async (audio: Blob) => {
+    controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller?.abort();
+    }, TRANSCRIBE_TIMEOUT_MS);
+    try {
+      const text = await transcribeAudio(audio, provider, settings, locale, controller.signal);
+      if (text.trim()) {
+        engine.onresult?.([{ transcript: text, isFinal: true }], 0);
+      }
+    } catch (error) {
+      // stop() による中断はエラーとしない
+      if (timedOut || !isAbortError(error)) {
+        console.error('文字起こしエラー:', error);
+        engine.onerror?.('network');
+      }
+    } finally {
+      clearTimeout(timer);
+      controller = null;
+      engine.onend?.();
+    }
+  };
+
+  const engine: STTEngine = {
+    streaming: false,
+    start() {
+      if (recorder || requesting) return;
+      shouldTranscribe = false;
+      chunks = [];
+      const current = ++generation;
+      requesting = true;
+
+      // 古い要求の結果は破棄し、新しい要求も録音もない場合のみ終了を通知する
+      const isStale = () => {
+        if (current === generation) return false;
+        if (!requesting && !recorder) engine.onend?.();
+        return true;
+      };
+
+      navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } })
+        .then((mediaStream) => {
+          if (isStale()) {
+            mediaStream.getTracks().forEach(track => track.stop());
+            return;
+          }
+          requesting = false;
+          stream = mediaStream;
+          recorder = new MediaRecorder(mediaStream);
+          recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+          };
+          recorder.onstop = () => {
+            const mimeType = recorder?.mimeType;
+            releaseMicrophone();
+            if (shouldTranscribe && chunks.length > 0) {
+              void transcribe(new Blob(chunks, { type: mimeType }));
+            } else {
+              engine.onend?.();
+            }
+          };
+          recorder.start();
+          engine.onstart?.();
+        })
+        .catch((error) => {
+          if (isStale()) return;
+          requesting = false;
+          console.error('録音開始エラー:', error);
+          engine.onerror?.(error?.name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture');
+          engine.onend?.();
+        });
+    },
+    stop() {
+      shouldTranscribe = false;
+      generation++;
+      requesting = false;
+      controller?.abort();
+      if (recorder?.state === 'recording') {
+        recorder.stop();
+      }
+    },
+    finish() {
+      shouldTranscribe = true;
+      if (recorder?.state === 'recording') {
+        recorder.stop();
+      }
+    },
+    onstart: null,
+    onresult: null,
+    onerror: null,
+    onend: null,
+  };
+
+  return engine;
+}
+
+// 音声認識エンジンを作成（使用できるバックエンドがない場合は null）
+export function createSTTEngine(settings: STTSettings, locale: string): STTEngine | null {
+  const provider = resolveSTTProvider(settings.provider);
+  if (!provider) return null;
+
+  return provider === 'webSpeech'
+    ? createWebSpeechEngine(locale)
+    : createRecordingEngine(provider, settings, locale);
+}
@@ -0,0 +1,84 @@
+// 症状の構造化記録（いつから・どこが・どのように・どの程度 + 頻度）
+import { Answer, SymptomRecord } from '@/types';
+
+type SymptomElement = 'onset' | 'location' | 'quality' | 'severity';
+
+// 問診で必ず確認する4要素（確認する順）
+export const REQUIRED_SYMPTOM_ELEMENTS: SymptomElement[] = ['onset', 'location', 'quality', 'severity'];
+
+export const SYMPTOM_FIELD_LABELS: Record<keyof SymptomRecord, string> = {
+  name: '症状',
+  onset: 'いつから',
+  location: 'どこが',
+  quality: 'どのように',
+  severity: 'どの程度',
+  frequency: '頻度',
+};
+
+// 症状名の全角・半角と空白の違いをそろえる
+function normalizeName(name: string): string {
+  return name.normalize('NFKC').replace(/\s+/g, '');
+}
+
+// 同じ症状の記録を統合（後から得た要素で上書き、未確認の要素は残す）
+export function mergeSymptomRecords(existing: SymptomRecord[], incoming: SymptomRecord[]): SymptomRecord[] {
+  const merged = existing.map(record => ({ ...record }));
+
+  for (const record of incoming) {
+    const index = merged.findIndex(r => normalizeName(r.name) === normalizeName(record.name));
+    const defined = Object.fromEntries(
+      Object.entries(record).filter(([, value]) => value !== undefined && value !== '')
+    ) as Partial<SymptomRecord>;
+
+    if (index >= 0) {
+      merged[index] = { ...merged[index], ...defined, name: merged[index].name };
+    } else {
+      merged.push({ ...defined, name: record.name });
+    }
+  }
+
+  return merged;
+}
+
+// 質問に対してこれまでに得られた症状の記録
+export function collectSymptoms(answers: Answer[], questionId: string): SymptomRecord[] {
+  return answers
+    .filter(a => a.questionId === questionId && a.symptoms)
+    .reduce<SymptomRecord[]>((records, a) => mergeSymptomRecords(records, a.symptoms || []), []);
+}
+
+// まだ確認できていない要素
+export function getMissingElements(record: SymptomRecord): SymptomElement[] {
+  return REQUIRED_SYMPTOM_ELEMENTS.filter(key => record[key] === undefined || record[key] === '');
+}
+
+// 1つの症状を1行で表記（例: 頭痛: [いつから] 2週間前から、[どの程度] 10段階中7）
+export function formatSymptomRecord(record: SymptomRecord): string {
+  const parts = (['onset', 'location', 'quality', 'severity', 'frequency'] as const)
+    .filter(key => record[key] !== undefined && record[key] !== '')
+    .map(key => `[${SYMPTOM_FIELD_LABELS[key]}] ${key === 'severity' ? `10段階中${record.severity}` : record[key]}`);
+
+  return parts.length > 0 ? `${record.name}: ${parts.join('、')}` : record.name;
+}
+
+// 対話AIに渡す症状の確認状況（次に確認すべき要素を明示する）
+export function formatSymptomStatus(records: SymptomRecord[]): string {
+  if (records.length === 0) return '';
+
+  const lines = records.map(record => {
+    const missing = getMissingElements(record);
+    return missing.length > 0
+      ? `- ${formatSymptomRecord(record)} ／ 未確認: ${missing.map(key => SYMPTOM_FIELD_LABELS[key]).join('、')}`
+      : `- ${formatSymptomRecord(record)} ／ すべて確認済み`;
+  });
+
+  const next = records
+    .map(record => ({ record, missing: getMissingElements(record) }))
+    .find(({ missing }) => missing.length > 0);
+
+  const instruction = next
+    ? `次は「${next.record.name}」の「${SYMPTOM_FIELD_LABELS[next.missing[0]]}」を確認すること（needMoreInfo = true）。確認済みの要素は再度聞かないこと。`
+    : 'すべての症状について4要素が確認済みのため、追加の質問はせず needMoreInfo = false とすること。';
+
+  return `【症状の確認状況】\n${lines.join('\n')}\n${instruction}`;
+}
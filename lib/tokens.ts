@@ -0,0 +1,77 @@
+import type { LLMMessage } from '@/lib/llm';
+
+// モデルごとのトークン換算係数（1文字あたりのトークン数）
+// 日本語（かな・漢字）は英数字よりもトークン数が多くなるため文字種別に換算する
+interface TokenProfile {
+  cjk: number; // かな・漢字・ハングル・全角記号
+  other: number; // 英数字・半角記号・空白
+}
+
+// 前方一致で判定（上から順に評価）
+const TOKEN_PROFILES: { prefix: string; profile: TokenProfile }[] = [
+  { prefix: 'gpt-4o', profile: { cjk: 0.9, other: 0.25 } }, // o200k_base
+  { prefix: 'gpt-4.1', profile: { cjk: 0.9, other: 0.25 } },
+  { prefix: 'gpt-4', profile: { cjk: 1.2, other: 0.25 } }, // cl100k_base
+  { prefix: 'gpt-3.5', profile: { cjk: 1.2, other: 0.25 } },
+];
+
+// ローカルモデル等、不明なモデルは多めに見積もる
+const DEFAULT_PROFILE: TokenProfile = { cjk: 1.5, other: 0.3 };
+
+// チャット形式の1メッセージあたりのオーバーヘッド
+const MESSAGE_OVERHEAD = 4;
+
+// 見積もりの誤差に備えて予算から差し引く割合（文字種別の換算はトークナイザーの実際の値より少なくなることがある）
+const ESTIMATE_SAFETY_MARGIN = 0.2;
+
+const CJK_CHAR = /[\u3000-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef\uac00-\ud7af]/;
+
+function getProfile(model: string): TokenProfile {
+  return TOKEN_PROFILES.find(p => model.startsWith(p.prefix))?.profile || DEFAULT_PROFILE;
+}
+
+// テキストのトークン数を見積もる（トークナイザーは使わず文字種別に換算した概算）
+export function countTokens(text: string, model: string): number {
+  const profile = getProfile(model);
+  let cjk = 0;
+  let other = 0;
+
+  for (const char of text) {
+    if (CJK_CHAR.test(char)) {
+      cjk++;
+    } else {
+      other++;
+    }
+  }
+
+  return Math.ceil(cjk * profile.cjk + other * profile.other);
+}
+
+// メッセージ配列のトークン数を見積もる
+export function countMessageTokens(messages: Pick<LLMMessage, 'content'>[], model: string): number {
+  return messages.reduce((sum, m) => sum + countTokens(m.content, model) + MESSAGE_OVERHEAD, 0);
+}
+
+// 予算内に収まる直近のメッセージのみを残す（古いものから削る）
+// トークン数は概算のため、予算から ESTIMATE_SAFETY_MARGIN の分を差し引いた範囲に収める
+export function fitToBudget<T extends Pick<LLMMessage, 'content'>>(
+  messages: T[],
+  budgetTokens: number,
+  model: string
+): { kept: T[]; dropped: T[] } {
+  const limit = Math.floor(budgetTokens * (1 - ESTIMATE_SAFETY_MARGIN));
+  let total = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const tokens = countTokens(messages[start - 1].content, model) + MESSAGE_OVERHEAD;
+    if (total + tokens > limit) break;
+    total += tokens;
+    start--;
+  }
+
+  return {
+    kept: messages.slice(start),
+    dropped: messages.slice(0, start),
+  };
+}
@@ -0,0 +1,182 @@
+// 読み上げ（TTS）のプロバイダーと、文診表・アバターごとの声の設定
+import { InterviewLanguage, SpeechVoice, TTSProviderId } from '@/types';
+import { HttpError, parseRetryAfter } from '@/lib/request';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '@/lib/languages';
+import { getSessionRedactor } from '@/lib/redaction';
+
+// 言語以外の読み上げ設定
+export type TTSSettings = Omit<SpeechVoice, 'lang'>;
+
+// 指定した項目のみ上書き（空欄の項目は上位の設定に従う）
+export type TTSSettingsOverride = Partial<TTSSettings>;
+
+// 保存形式: 共通設定 + アバターごと + 文診表ごとの上書き（後のものが優先）
+export interface TTSSettingsStore {
+  global: TTSSettingsOverride;
+  avatars: Record<string, TTSSettingsOverride>;
+  questionnaires: Record<string, TTSSettingsOverride>;
+}
+
+// 音声を生成するプロバイダー
+export interface TTSProvider {
+  name: TTSProviderId;
+  // 音声データを生成（null の場合はブラウザの音声合成で読み上げる）
+  synthesize(text: string, voice: SpeechVoice, signal?: AbortSignal): Promise<Blob | null>;
+}
+
+const STORAGE_KEY = 'tts_settings';
+
+export const TTS_PROVIDER_LABELS: Record<TTSProviderId, string> = {
+  openai: 'OpenAI TTS',
+  browser: 'ブラウザの音声合成',
+  http: 'ローカルTTSサーバー（HTTP）',
+};
+
+// OpenAI TTSの声
+export const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+// 声・速度以外の既定値（声・速度は言語ごとの既定の声）
+// NEXT_PUBLIC_TTS_HTTP_URL: ローカルTTSサーバーの既定のURL
+const DEFAULT_PROVIDER_SETTINGS: Omit<TTSSettings, 'voice' | 'speed'> = {
+  provider: 'openai',
+  model: 'tts-1',
+  endpoint: process.env.NEXT_PUBLIC_TTS_HTTP_URL || 'http://localhost:5002/api/tts',
+  pitch: 1.1,
+};
+
+const EMPTY_STORE: TTSSettingsStore = {
+  global: {},
+  avatars: {},
+  questionnaires: {},
+};
+
+// 言語の既定の声に設定を重ねる
+export function toSpeechVoice(settings: TTSSettingsOverride, language: InterviewLanguage = DEFAULT_LANGUAGE): SpeechVoice {
+  const { voice, locale } = LANGUAGES[language];
+  return { ...DEFAULT_PROVIDER_SETTINGS, ...voice, ...settings, lang: locale };
+}
+
+// 既定の読み上げ（日本語、保存済みの設定は含まない）
+export const DEFAULT_SPEECH_VOICE: SpeechVoice = toSpeechVoice({});
+
+// 設定を取得
+export function getTTSSettingsStore(): TTSSettingsStore {
+  if (typeof window === 'undefined') return EMPTY_STORE;
+
+  try {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return EMPTY_STORE;
+
+    const stored: Partial<TTSSettingsStore> = JSON.parse(data);
+    return {
+      global: stored.global || {},
+      avatars: stored.avatars || {},
+      questionnaires: stored.questionnaires || {},
+    };
+  } catch (error) {
+    console.error('音声設定取得エラー:', error);
+    return EMPTY_STORE;
+  }
+}
+
+// 設定を保存
+export function saveTTSSettingsStore(store: TTSSettingsStore): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.error('音声設定保存エラー:', error);
+  }
+}
+
+// 文診表とアバターに適用される設定を解決（共通設定 → アバター → 文診表の順に上書き）
+export function resolveTTSSettings(questionnaireId: string, avatarId: string): TTSSettingsOverride {
+  const { global, avatars, questionnaires } = getTTSSettingsStore();
+  return { ...global, ...avatars[avatarId], ...questionnaires[questionnaireId] };
+}
+
+// 音声データの取得に失敗した場合のエラー
+function toHttpError(response: Response, label: string): HttpError {
+  return new HttpError(
+    response.status,
+    `${label} error: ${response.statusText}`,
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+}
+
+// OpenAI TTS（サーバー側プロキシ経由、キー未設定時はエラー応答）
+// 外部に送るため、問診中は応答で元に戻した氏名などを一般的な言葉に読み替える
+function createOpenAITTSProvider(): TTSProvider {
+  return {
+    name: 'openai',
+    async synthesize(text, voice, signal) {
+      const input = getSessionRedactor()?.maskForSpeech(text) ?? text;
+
+      const response = await fetch('/api/tts', {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: voice.model,
+          voice: voice.voice,
+          input,
+          speed: voice.speed,
+        }),
+      });
+
+      if (!response.ok) {
+        throw toHttpError(response, 'OpenAI TTS API');
+      }
+      return response.blob();
+    },
+  };
+}
+
+// ブラウザの音声合成（音声データは生成せず、その場で読み上げる）
+function createBrowserTTSProvider(): TTSProvider {
+  return {
+    name: 'browser',
+    synthesize: async () => null,
+  };
+}
+
+// ローカルのHTTP TTSサーバー（JSONで文を受け取り、音声データを返すもの）
+// リクエスト: { text, voice, speed, pitch, lang } / 応答: audio/wav・audio/mpeg 等
+function createHttpTTSProvider(): TTSProvider {
+  return {
+    name: 'http',
+    async synthesize(text, voice, signal) {
+      const response = await fetch(voice.endpoint, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text,
+          voice: voice.voice,
+          speed: voice.speed,
+          pitch: voice.pitch,
+          lang: voice.lang,
+        }),
+      });
+
+      if (!response.ok) {
+        throw toHttpError(response, 'TTS server');
+      }
+      return response.blob();
+    },
+  };
+}
+
+const PROVIDERS: Record<TTSProviderId, TTSProvider> = {
+  openai: createOpenAITTSProvider(),
+  browser: createBrowserTTSProvider(),
+  http: createHttpTTSProvider(),
+};
+
+// 声の設定に対応するプロバイダーを取得
+export function getTTSProvider(id: TTSProviderId): TTSProvider {
+  return PROVIDERS[id] || PROVIDERS.openai;
+}
@@ -0,0 +1,173 @@
+// 読み上げ音声のキャッシュ（IndexedDB）
+// 文・声・速度・モデルが同じ音声は再生成せず、容量を超えたら最後に使われたのが古いものから削除する
+// 端末を複数の患者が使うため、文そのものは保存せず、文から作ったキーと音声のみを保存する
+import { SpeechVoice } from '@/types';
+
+const DB_NAME = 'tts_cache';
+const DB_VERSION = 2;
+const STORE_NAME = 'audio';
+
+// キャッシュの上限（バイト）
+export const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface SpeechCacheStats {
+  count: number;
+  bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// IndexedDBのリクエストをPromiseに変換
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDBがサポートされていません'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // 以前の版は文をそのまま保存していたため、作り直して削除する
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(STORE_NAME)) {
+          db.deleteObjectStore(STORE_NAME);
+        }
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastUsedAt', 'lastUsedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> {
+  const db = await openDatabase();
+  return run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+}
+
+// 音声を決める要素（文・プロバイダー・モデル・声・速度など）から内容に基づくキーを作る
+// ハッシュを計算できない環境（HTTPS以外など）では文が残るため、キャッシュしない（null）
+async function cacheKey(text: string, voice: SpeechVoice): Promise<string | null> {
+  const source = JSON.stringify([
+    voice.provider,
+    voice.provider === 'http' ? voice.endpoint : voice.model,
+    voice.voice,
+    voice.speed,
+    voice.provider === 'http' ? voice.pitch : null,
+    voice.lang,
+    text,
+  ]);
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// キャッシュ済みの音声を取得（使用日時を更新）
+export async function getCachedSpeech(text: string, voice: SpeechVoice): Promise<Blob | null> {
+  try {
+    const key = await cacheKey(text, voice);
+    if (!key) return null;
+    return await withStore('readwrite', async (store) => {
+      const entry: CacheEntry | undefined = await promisify(store.get(key));
+      if (!entry) return null;
+
+      await promisify(store.put({ ...entry, lastUsedAt: Date.now() }));
+      return entry.blob;
+    });
+  } catch (error) {
+    console.warn('音声キャッシュ取得エラー:', error);
+    return null;
+  }
+}
+
+// 音声をキャッシュに保存し、上限を超えた分を削除
+export async function putCachedSpeech(text: string, voice: SpeechVoice, blob: Blob): Promise<void> {
+  if (blob.size > MAX_CACHE_BYTES) return;
+
+  try {
+    const key = await cacheKey(text, voice);
+    if (!key) return;
+    const now = Date.now();
+    await withStore('readwrite', (store) => promisify(store.put({
+      key,
+      blob,
+      size: blob.size,
+      createdAt: now,
+      lastUsedAt: now,
+    } satisfies CacheEntry)));
+    await evictLeastRecentlyUsed();
+  } catch (error) {
+    console.warn('音声キャッシュ保存エラー:', error);
+  }
+}
+
+// 合計サイズが上限に収まるまで、最後に使われたのが古いものから削除
+async function evictLeastRecentlyUsed(): Promise<void> {
+  await withStore('readwrite', async (store) => {
+    const entries: CacheEntry[] = await promisify(store.index('lastUsedAt').getAll());
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of entries) {
+      if (total <= MAX_CACHE_BYTES) break;
+      await promisify(store.delete(entry.key));
+      total -= entry.size;
+    }
+  });
+}
+
+// キャッシュ済みかどうか（事前作成で生成済みの文を飛ばすため、使用日時は更新しない）
+export async function hasCachedSpeech(text: string, voice: SpeechVoice): Promise<boolean> {
+  try {
+    const key = await cacheKey(text, voice);
+    if (!key) return false;
+    return await withStore('readonly', async (store) => (await promisify(store.count(key))) > 0);
+  } catch {
+    return false;
+  }
+}
+
+// 件数と合計サイズ
+export async function getSpeechCacheStats(): Promise<SpeechCacheStats> {
+  try {
+    return await withStore('readonly', async (store) => {
+      const entries: CacheEntry[] = await promisify(store.getAll());
+      return {
+        count: entries.length,
+        bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+      };
+    });
+  } catch (error) {
+    console.warn('音声キャッシュ取得エラー:', error);
+    return { count: 0, bytes: 0 };
+  }
+}
+
+// キャッシュをすべて削除
+export async function clearSpeechCache(): Promise<void> {
+  try {
+    await withStore('readwrite', (store) => promisify(store.clear()));
+  } catch (error) {
+    console.error('音声キャッシュ削除エラー:', error);
+  }
+}
@@ -0,0 +1,182 @@
+// サーバー側専用: OpenAI（互換）APIへのプロキシ
+// APIキーはサーバーの環境変数のみで保持し、ブラウザには渡さない
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// クライアントから転送を許可するパラメータ
+const CHAT_COMPLETION_FIELDS = ['model', 'messages', 'temperature', 'max_tokens', 'response_format', 'stream'];
+const SPEECH_FIELDS = ['model', 'voice', 'input', 'speed', 'response_format'];
+const TRANSCRIPTION_FIELDS = ['file', 'model', 'language', 'prompt', 'response_format', 'temperature'];
+
+// 利用を許可するモデル（プロキシを任意のモデルに使われないように）
+// 種類ごとの環境変数（カンマ区切り）を指定した場合は、その種類のみ指定したモデルに置き換える（ローカル互換サーバーのモデル名など）
+const DEFAULT_ALLOWED_MODELS = {
+  chat: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-4.1-nano', 'gpt-4.1'],
+  speech: ['tts-1', 'tts-1-hd', 'gpt-4o-mini-tts'],
+  transcription: ['whisper-1', 'gpt-4o-mini-transcribe', 'gpt-4o-transcribe'],
+};
+
+type ModelKind = keyof typeof DEFAULT_ALLOWED_MODELS;
+
+const ALLOWED_MODELS_ENV: Record<ModelKind, string> = {
+  chat: 'OPENAI_ALLOWED_CHAT_MODELS',
+  speech: 'OPENAI_ALLOWED_SPEECH_MODELS',
+  transcription: 'OPENAI_ALLOWED_TRANSCRIBE_MODELS',
+};
+
+// チャット補完の最大トークン数の上限（クライアントの指定はこれを超えない）
+const MAX_COMPLETION_TOKENS = 4096;
+
+// 上流APIの設定（OPENAI_BASE_URLでテスト用のスタブサーバー等に差し替え可能）
+export function getUpstreamConfig() {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env.OPENAI_API_KEY || '';
+  return { baseUrl, apiKey };
+}
+
+function getAllowedModels(kind: ModelKind): string[] {
+  const configured = process.env[ALLOWED_MODELS_ENV[kind]];
+  if (configured) {
+    return configured.split(',').map(model => model.trim()).filter(Boolean);
+  }
+  return DEFAULT_ALLOWED_MODELS[kind];
+}
+
+function isAllowedModel(model: unknown, kind: ModelKind): boolean {
+  return typeof model === 'string' && getAllowedModels(kind).includes(model);
+}
+
+function modelNotAllowedResponse(model: unknown): Response {
+  return Response.json({ error: `Model is not allowed: ${String(model)}` }, { status: 400 });
+}
+
+// 最大トークン数を上限内に収める（未指定・不正な値は上限とする）
+function limitMaxTokens(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    return MAX_COMPLETION_TOKENS;
+  }
+  return Math.min(Math.floor(value), MAX_COMPLETION_TOKENS);
+}
+
+// 許可されたフィールドのみ抽出
+function pickFields(body: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  fields.forEach(field => {
+    if (body[field] !== undefined) {
+      picked[field] = body[field];
+    }
+  });
+  return picked;
+}
+
+// 本家OpenAIを使う場合はキー必須（ローカル互換サーバーはキー不要）
+function missingApiKeyResponse(): Response | null {
+  const { baseUrl, apiKey } = getUpstreamConfig();
+  if (!apiKey && baseUrl === DEFAULT_BASE_URL) {
+    return Response.json({ error: 'OPENAI_API_KEY is not configured' }, { status: 500 });
+  }
+  return null;
+}
+
+async function proxyToUpstream(
+  request: Request,
+  path: string,
+  fields: string[],
+  kind: ModelKind
+): Promise<Response> {
+  const missingKey = missingApiKeyResponse();
+  if (missingKey) return missingKey;
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const picked = pickFields(body, fields);
+  if (!isAllowedModel(picked.model, kind)) {
+    return modelNotAllowedResponse(picked.model);
+  }
+  if (kind === 'chat') {
+    picked.max_tokens = limitMaxTokens(picked.max_tokens);
+  }
+
+  return forwardToUpstream(request, path, JSON.stringify(picked), 'application/json');
+}
+
+// 上流APIへ転送（contentType を省略した場合は本文から決まる。multipart/form-data の境界など）
+async function forwardToUpstream(request: Request, path: string, body: BodyInit, contentType?: string): Promise<Response> {
+  const { baseUrl, apiKey } = getUpstreamConfig();
+
+  const headers: Record<string, string> = {};
+  if (contentType) {
+    headers['Content-Type'] = contentType;
+  }
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  try {
+    const upstream = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body,
+      signal: request.signal,
+    });
+
+    // ステータスと本文はそのまま返す（ストリーミング応答もそのまま流す）
+    const responseHeaders: Record<string, string> = {
+      'Content-Type': upstream.headers.get('Content-Type') || 'application/json',
+    };
+    const retryAfter = upstream.headers.get('Retry-After');
+    if (retryAfter) {
+      responseHeaders['Retry-After'] = retryAfter;
+    }
+
+    return new Response(upstream.body, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    console.error(`上流API呼び出しエラー (${path}):`, error);
+    return Response.json({ error: 'Upstream request failed' }, { status: 502 });
+  }
+}
+
+// チャット補完APIへのプロキシ
+export function proxyChatCompletion(request: Request): Promise<Response> {
+  return proxyToUpstream(request, '/chat/completions', CHAT_COMPLETION_FIELDS, 'chat');
+}
+
+// 音声合成APIへのプロキシ
+export function proxySpeech(request: Request): Promise<Response> {
+  return proxyToUpstream(request, '/audio/speech', SPEECH_FIELDS, 'speech');
+}
+
+// 文字起こしAPIへのプロキシ（multipart/form-data の録音データを転送）
+export async function proxyTranscription(request: Request): Promise<Response> {
+  const missingKey = missingApiKeyResponse();
+  if (missingKey) return missingKey;
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return Response.json({ error: 'Invalid form data' }, { status: 400 });
+  }
+  if (!isAllowedModel(form.get('model'), 'transcription')) {
+    return modelNotAllowedResponse(form.get('model'));
+  }
+
+  const body = new FormData();
+  TRANSCRIPTION_FIELDS.forEach(field => {
+    const value = form.get(field);
+    if (value !== null) {
+      body.append(field, value);
+    }
+  });
+
+  return forwardToUpstream(request, '/audio/transcriptions', body);
+}
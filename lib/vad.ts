@@ -0,0 +1,183 @@
+// 発話区間の検出（VAD）: マイクの音量から患者が話し始めた・話し終えたことを判定する
+// 周囲の雑音の大きさ（ノイズフロア）を測り続け、それを十分に上回る音を発話とみなす
+
+export type VADProfileId = 'quietRoom' | 'standard' | 'busyWaitingRoom';
+
+// 設置場所に合わせた感度
+export interface VADProfile {
+  label: string;
+  description: string;
+  speechRatio: number; // ノイズフロアの何倍の音量を発話とみなすか
+  minLevel: number; // 発話とみなす最小の音量（RMS）
+  minSpeechMs: number; // 発話の開始とみなすまでの継続時間（物音で反応しないように）
+  hangoverMs: number; // 発話の終了とみなすまでの無音の継続時間（言いよどみで途切れないように）
+}
+
+export type VADEvent = 'speechStart' | 'speechEnd';
+
+export const VAD_PROFILES: Record<VADProfileId, VADProfile> = {
+  quietRoom: {
+    label: '静かな診察室',
+    description: '小さな声や、間を置いてゆっくり話す方でも途中で区切りません',
+    speechRatio: 2.5,
+    minLevel: 0.005,
+    minSpeechMs: 120,
+    hangoverMs: 1500,
+  },
+  standard: {
+    label: '標準',
+    description: '一般的な受付・問診スペース向け',
+    speechRatio: 3,
+    minLevel: 0.01,
+    minSpeechMs: 150,
+    hangoverMs: 1100,
+  },
+  busyWaitingRoom: {
+    label: 'にぎやかな待合室',
+    description: '周囲の話し声や物音を発話とみなしにくくします',
+    speechRatio: 4,
+    minLevel: 0.02,
+    minSpeechMs: 250,
+    hangoverMs: 900,
+  },
+};
+
+export const VAD_PROFILE_IDS = Object.keys(VAD_PROFILES) as VADProfileId[];
+
+export const DEFAULT_VAD_PROFILE: VADProfileId = 'standard';
+
+const STORAGE_KEY = 'vad_profile';
+
+// 開始直後にノイズフロアを測る時間（ミリ秒）
+const CALIBRATION_MS = 500;
+// 音量を測る間隔（ミリ秒）
+const FRAME_MS = 30;
+// 無音時にノイズフロアを現在の音量へ近づける割合（1フレームあたり）
+const NOISE_ADAPT_RATE = 0.05;
+// 発話中の追従の割合（鳴り続ける雑音をいつまでも発話とみなさないように、ごくゆっくり追従）
+const SPEECH_NOISE_ADAPT_RATE = 0.002;
+// ノイズフロアの下限（完全な無音で閾値が0にならないように）
+const MIN_NOISE_FLOOR = 0.0005;
+
+// 設置場所の感度を取得
+export function getVADProfileId(): VADProfileId {
+  if (typeof window === 'undefined') return DEFAULT_VAD_PROFILE;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY) as VADProfileId | null;
+    return stored && stored in VAD_PROFILES ? stored : DEFAULT_VAD_PROFILE;
+  } catch (error) {
+    console.error('発話検出の設定取得エラー:', error);
+    return DEFAULT_VAD_PROFILE;
+  }
+}
+
+// 設置場所の感度を保存
+export function saveVADProfileId(id: VADProfileId): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.error('発話検出の設定保存エラー:', error);
+  }
+}
+
+// 音量の推移から発話の開始・終了を判定
+export function createVADState(profile: VADProfile) {
+  let noiseFloor: number | null = null;
+  let calibration: number[] = [];
+  let calibrationStartedAt: number | null = null;
+  let speaking = false;
+  let aboveSince: number | null = null;
+  let belowSince: number | null = null;
+
+  return {
+    isSpeaking(): boolean {
+      return speaking;
+    },
+    // 1フレームの音量（RMS）を受け取り、発話の開始・終了を検出した場合はそのイベントを返す
+    process(level: number, now: number): VADEvent | null {
+      // 開始直後: 周囲の音量を測る（すぐに話し始めた場合に備え、小さい方から1/4の値を使う）
+      if (noiseFloor === null) {
+        calibrationStartedAt ??= now;
+        calibration.push(level);
+        if (now - calibrationStartedAt < CALIBRATION_MS) return null;
+
+        const sorted = [...calibration].sort((a, b) => a - b);
+        noiseFloor = Math.max(MIN_NOISE_FLOOR, sorted[Math.floor(sorted.length / 4)]);
+        calibration = [];
+        return null;
+      }
+
+      const threshold = Math.max(profile.minLevel, noiseFloor * profile.speechRatio);
+      const isLoud = level >= threshold;
+
+      // 発話の立ち上がりはノイズフロアに含めない
+      if (speaking) {
+        noiseFloor += (level - noiseFloor) * SPEECH_NOISE_ADAPT_RATE;
+      } else if (!isLoud) {
+        noiseFloor += (level - noiseFloor) * NOISE_ADAPT_RATE;
+      }
+      noiseFloor = Math.max(MIN_NOISE_FLOOR, noiseFloor);
+
+      if (isLoud) {
+        belowSince = null;
+        aboveSince ??= now;
+        if (!speaking && now - aboveSince >= profile.minSpeechMs) {
+          speaking = true;
+          return 'speechStart';
+        }
+      } else {
+        aboveSince = null;
+        if (speaking) {
+          belowSince ??= now;
+          if (now - belowSince >= profile.hangoverMs) {
+            speaking = false;
+            belowSince = null;
+            return 'speechEnd';
+          }
+        }
+      }
+      return null;
+    },
+  };
+}
+
+function rms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+// マイクの音声から発話の開始・終了を検出する（停止するまで一定間隔で音量を測る）
+export function startVoiceActivityDetection(
+  stream: MediaStream,
+  profile: VADProfile,
+  onEvent: (event: VADEvent) => void
+): { stop(): void } {
+  const context = new AudioContext();
+  if (context.state === 'suspended') {
+    void context.resume();
+  }
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const state = createVADState(profile);
+  const timer = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    const event = state.process(rms(samples), performance.now());
+    if (event) onEvent(event);
+  }, FRAME_MS);
+
+  return {
+    stop() {
+      clearInterval(timer);
+      source.disconnect();
+      void context.close();
+    },
+  };
+}
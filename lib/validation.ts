@@ -0,0 +1,311 @@
+import {
+  AnalysisResponse,
+  EmotionType,
+  ExtractedAnswer,
+  FactSheetResponse,
+  FormattedAnswer,
+  LLMResponse,
+  NormalizedValue,
+  Question,
+  RedFlagResponse,
+  SummaryResponse,
+  SymptomRecord,
+} from '@/types';
+import {
+  describeAnswerFormat,
+  isNormalizedQuestion,
+  matchChoiceOption,
+  normalizeAnswer,
+} from '@/lib/answerNormalization';
+import { stripRuby } from '@/lib/easyJapanese';
+
+// LLM出力の検証結果
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+const EMOTION_TYPES: EmotionType[] = ['neutral', 'gentle', 'thinking', 'serious', 'happy'];
+const CONFIDENCE_LEVELS: FormattedAnswer['confidence'][] = ['high', 'medium', 'low'];
+
+// あらゆる種類の空白文字
+const WHITESPACE = /[\r\n\t\f\v\u0020\u00a0\u1680\u2000-\u200a\u2028\u2029\u202f\u205f\u3000\ufeff]+/g;
+
+const ok = <T>(value: T): ValidationResult<T> => ({ ok: true, value });
+const fail = <T>(error: string): ValidationResult<T> => ({ ok: false, error });
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// 任意の文字列項目（空文字は未確認として扱う）
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// 症状の構造化記録の検証（symptomsが省略された場合はundefined）
+function validateSymptomRecords(value: unknown, path: string): ValidationResult<SymptomRecord[] | undefined> {
+  if (value === undefined || value === null) return ok(undefined);
+  if (!Array.isArray(value)) {
+    return fail(`${path} は配列である必要があります`);
+  }
+
+  const records: SymptomRecord[] = [];
+  for (const [index, item] of value.entries()) {
+    if (!isRecord(item)) {
+      return fail(`${path}[${index}] はオブジェクトである必要があります`);
+    }
+    if (typeof item.name !== 'string' || !item.name.trim()) {
+      return fail(`${path}[${index}].name は空でない文字列である必要があります`);
+    }
+
+    // 強さは0〜10の数値（"7" のような文字列も許容）
+    let severity: number | undefined;
+    if (item.severity !== undefined && item.severity !== null && item.severity !== '') {
+      severity = typeof item.severity === 'string' ? Number(item.severity) : (item.severity as number);
+      if (typeof severity !== 'number' || !Number.isFinite(severity) || severity < 0 || severity > 10) {
+        return fail(`${path}[${index}].severity は0〜10の数値である必要があります（受信値: ${JSON.stringify(item.severity)}）`);
+      }
+    }
+
+    records.push({
+      name: item.name.trim(),
+      onset: optionalString(item.onset),
+      location: optionalString(item.location),
+      quality: optionalString(item.quality),
+      severity: severity !== undefined ? Math.round(severity) : undefined,
+      frequency: optionalString(item.frequency),
+    });
+  }
+
+  return ok(records.length > 0 ? records : undefined);
+}
+
+// 正規化した回答の検証（選択肢にない値・範囲外の数値は拒否）
+// LLMが当てはめられなかった場合（null・省略）は抽出した回答から照合する
+function validateNormalizedValue(
+  value: unknown,
+  question: Question,
+  answer: string,
+  path: string
+): ValidationResult<NormalizedValue | undefined> {
+  if (!isNormalizedQuestion(question)) return ok(undefined);
+  if (value === undefined || value === null || value === '') {
+    return ok(normalizeAnswer(question, answer) ?? undefined);
+  }
+
+  const invalid = fail<NormalizedValue | undefined>(
+    `${path} は質問の回答形式（${describeAnswerFormat(question)}）に従う必要があります（受信値: ${JSON.stringify(value)}）`
+  );
+  const options = question.options || [];
+
+  switch (question.type) {
+    case 'scale': {
+      const scale = typeof value === 'string' ? Number(value) : value;
+      if (typeof scale !== 'number' || !Number.isFinite(scale) || scale < 0 || scale > 10) return invalid;
+      return ok(Math.round(scale));
+    }
+    case 'multiChoice': {
+      // 表記ゆれ（「やや不足です」など）は選択肢に寄せる
+      const values = (Array.isArray(value) ? value : [value])
+        .map(v => (typeof v === 'string' ? matchChoiceOption(v, options) : null));
+      if (values.length === 0 || values.some(v => v === null)) return invalid;
+      return ok(options.filter(option => values.includes(option)));
+    }
+    default: {
+      const option = typeof value === 'string' ? matchChoiceOption(value, options) : null;
+      return option !== null ? ok(option) : invalid;
+    }
+  }
+}
+
+// LLMの出力テキストからJSONオブジェクトを取り出す
+// コードブロックや前後の説明文が付いていても最初の { から最後の } までを解析する
+export function parseJSONObject(text: string): ValidationResult<Record<string, unknown>> {
+  if (!text || !text.replace(WHITESPACE, '')) {
+    return fail('応答が空です');
+  }
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start < 0 || end <= start) {
+    return fail('JSONオブジェクトが含まれていません');
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(text.slice(start, end + 1));
+    return isRecord(parsed) ? ok(parsed) : fail('JSONのトップレベルがオブジェクトではありません');
+  } catch (e) {
+    return fail(`JSONの解析に失敗しました: ${(e as Error).message}`);
+  }
+}
+
+// JSONとして解析したうえでスキーマを検証
+export function parseAndValidate<T>(
+  text: string,
+  validate: (data: Record<string, unknown>) => ValidationResult<T>
+): ValidationResult<T> {
+  const parsed = parseJSONObject(text);
+  return parsed.ok ? validate(parsed.value) : parsed;
+}
+
+// 【2段階AI】対話応答の検証
+export function validateLLMResponse(data: Record<string, unknown>): ValidationResult<LLMResponse> {
+  const { reply, emotion, needMoreInfo, isComplete, furigana } = data;
+
+  if (typeof reply !== 'string' || reply.replace(WHITESPACE, ' ').trim().length < 2) {
+    return fail('"reply" は空でない文字列である必要があります');
+  }
+  if (emotion !== undefined && !EMOTION_TYPES.includes(emotion as EmotionType)) {
+    return fail(`"emotion" は ${EMOTION_TYPES.join(' / ')} のいずれかである必要があります（受信値: ${JSON.stringify(emotion)}）`);
+  }
+  if (needMoreInfo !== undefined && typeof needMoreInfo !== 'boolean') {
+    return fail('"needMoreInfo" は true または false である必要があります');
+  }
+  if (isComplete !== undefined && typeof isComplete !== 'boolean') {
+    return fail('"isComplete" は true または false である必要があります');
+  }
+
+  // ふりがなを除いた文がreplyと異なる場合は表示と読み上げがずれるため使わない
+  const hasFurigana = typeof furigana === 'string'
+    && stripRuby(furigana).replace(WHITESPACE, '') === reply.replace(WHITESPACE, '');
+
+  return ok({
+    reply,
+    emotion: (emotion as EmotionType | undefined) || 'gentle',
+    needMoreInfo: needMoreInfo !== undefined ? needMoreInfo : true,
+    isComplete: isComplete || false,
+    ...(hasFurigana && { furigana: furigana as string }),
+  });
+}
+
+// 【1段階AI】回答分析の検証（文診表に存在しない質問IDは拒否）
+export function validateAnalysisResponse(
+  data: Record<string, unknown>,
+  questions: Question[],
+  userAnswer: string
+): ValidationResult<AnalysisResponse> {
+  const { answers } = data;
+
+  if (!Array.isArray(answers)) {
+    return fail('"answers" は配列である必要があります');
+  }
+
+  const validIds = questions.map(q => q.id);
+  const validated: ExtractedAnswer[] = [];
+
+  for (const [index, item] of answers.entries()) {
+    if (!isRecord(item)) {
+      return fail(`answers[${index}] はオブジェクトである必要があります`);
+    }
+    const question = questions.find(q => q.id === item.questionId);
+    if (typeof item.questionId !== 'string' || !question) {
+      return fail(`answers[${index}] の質問ID ${JSON.stringify(item.questionId)} は存在しません（有効なID: ${validIds.join(', ')}）`);
+    }
+    if (typeof item.value !== 'string' || !item.value.trim()) {
+      return fail(`answers[${index}].value は空でない文字列である必要があります`);
+    }
+
+    // 同じ質問の重複は最初のものを採用
+    if (validated.some(a => a.questionId === item.questionId)) continue;
+
+    const symptoms = validateSymptomRecords(item.symptoms, `answers[${index}].symptoms`);
+    if (!symptoms.ok) return symptoms;
+    const normalizedValue = validateNormalizedValue(
+      item.normalizedValue,
+      question,
+      item.value,
+      `answers[${index}].normalizedValue`
+    );
+    if (!normalizedValue.ok) return normalizedValue;
+
+    // 根拠が原文の一部でない場合は発話全体を根拠とする
+    const evidence = typeof item.evidence === 'string' ? item.evidence.trim() : '';
+    validated.push({
+      questionId: item.questionId,
+      value: item.value.trim(),
+      evidence: evidence && userAnswer.includes(evidence) ? evidence : userAnswer,
+      symptoms: symptoms.value,
+      normalizedValue: normalizedValue.value,
+    });
+  }
+
+  return ok({ answers: validated });
+}
+
+// 要約AIの応答の検証
+export function validateSummaryResponse(
+  data: Record<string, unknown>,
+  questions: Question[]
+): ValidationResult<SummaryResponse> {
+  const { formattedAnswers, summary } = data;
+
+  if (!Array.isArray(formattedAnswers)) {
+    return fail('"formattedAnswers" は配列である必要があります');
+  }
+  if (typeof summary !== 'string') {
+    return fail('"summary" は文字列である必要があります');
+  }
+
+  const validated: FormattedAnswer[] = [];
+  for (const [index, item] of formattedAnswers.entries()) {
+    if (!isRecord(item)) {
+      return fail(`formattedAnswers[${index}] はオブジェクトである必要があります`);
+    }
+
+    const question = questions.find(q => q.id === item.questionId);
+    if (!question) {
+      return fail(`formattedAnswers[${index}] の質問ID ${JSON.stringify(item.questionId)} は存在しません`);
+    }
+    if (typeof item.extractedAnswer !== 'string') {
+      return fail(`formattedAnswers[${index}].extractedAnswer は文字列である必要があります`);
+    }
+    if (!CONFIDENCE_LEVELS.includes(item.confidence as FormattedAnswer['confidence'])) {
+      return fail(`formattedAnswers[${index}].confidence は ${CONFIDENCE_LEVELS.join(' / ')} のいずれかである必要があります`);
+    }
+    const symptoms = validateSymptomRecords(item.symptoms, `formattedAnswers[${index}].symptoms`);
+    if (!symptoms.ok) return symptoms;
+
+    validated.push({
+      questionId: question.id,
+      // 質問テキストは文診表の定義を正とする
+      questionText: question.text,
+      extractedAnswer: item.extractedAnswer,
+      confidence: item.confidence as FormattedAnswer['confidence'],
+      symptoms: symptoms.value,
+    });
+  }
+
+  return ok({ formattedAnswers: validated, summary });
+}
+
+// 会話メモリ圧縮の応答の検証
+export function validateFactSheetResponse(data: Record<string, unknown>): ValidationResult<FactSheetResponse> {
+  const { factSheet } = data;
+
+  if (typeof factSheet !== 'string' || !factSheet.trim()) {
+    return fail('"factSheet" は空でない文字列である必要があります');
+  }
+
+  return ok({ factSheet: factSheet.trim() });
+}
+
+// レッドフラグ分類器の応答の検証
+export function validateRedFlagResponse(data: Record<string, unknown>): ValidationResult<RedFlagResponse> {
+  const { isRedFlag, label, reason } = data;
+
+  if (typeof isRedFlag !== 'boolean') {
+    return fail('"isRedFlag" は true または false である必要があります');
+  }
+  if (label !== undefined && typeof label !== 'string') {
+    return fail('"label" は文字列である必要があります');
+  }
+  if (reason !== undefined && typeof reason !== 'string') {
+    return fail('"reason" は文字列である必要があります');
+  }
+
+  return ok({
+    isRedFlag,
+    label: (label as string | undefined)?.trim() || '',
+    reason: (reason as string | undefined)?.trim() || '',
+  });
+}
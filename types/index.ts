@@ -35,16 +35,35 @@ export interface Answer {
   id: string;
   questionId: string;
   questionText: string; // 質問のテキストも保存
-  answer: string;
+  answer: string; // この質問に対して抽出された回答
+  evidence?: string; // 根拠となる患者発話の該当部分
+  symptoms?: SymptomRecord[]; // 症状に関する回答の場合の構造化記録
+  normalizedValue?: NormalizedValue; // 選択肢・スケールに当てはめた値（当てはまらない場合は省略）
   timestamp: number;
 }
 
+// 質問タイプに合わせて正規化した回答
+// choice: 選択肢の文字列 / multiChoice: 選択肢の配列 / scale: 0〜10の数値
+export type NormalizedValue = string | string[] | number;
+
+// 症状の構造化記録（4要素 + 頻度）
+export interface SymptomRecord {
+  name: string; // 症状名（例: 頭痛）
+  onset?: string; // いつから
+  location?: string; // どこが
+  quality?: string; // どのように
+  severity?: number; // どの程度（0〜10）
+  frequency?: string; // 頻度
+}
+
 // 포맷팅된 답변 (요약 AI가 생성)
 export interface FormattedAnswer {
   questionId: string;
   questionText: string;
   extractedAnswer: string;
   confidence: 'high' | 'medium' | 'low';
+  symptoms?: SymptomRecord[]; // 症状に関する質問の場合（スタッフが編集可能）
+  normalizedValue?: NormalizedValue; // 選択肢・スケールの質問の場合
 }
 
 // セッションの定義
@@ -60,6 +79,80 @@ export interface Session {
   summary?: string;
   // 既に回答された質問IDのリスト（一度の回答で複数質問に答えた場合も含む）
   answeredQuestionIds?: string[];
+  // 使用したプロンプトテンプレートのバージョン（段階 → 例: general-health@3）
+  promptVersions?: Record<string, string>;
+  // 検出されたレッドフラグ（緊急性のある発言、管理画面で強調表示）
+  redFlags?: RedFlagAlert[];
+  // 問診モード（AIの障害でスクリプト問診に切り替えた場合は 'scripted'）
+  interviewMode?: InterviewMode;
+  // 問診の言語（省略時は日本語）
+  language?: InterviewLanguage;
+  // やさしい日本語モード（開始時にスタッフが選択、または「わからない」が続いて自動で切り替え）
+  easyJapanese?: boolean;
+  // 患者の言語のままの会話記録（問診完了時に保存）
+  transcript?: TranscriptEntry[];
+  // 入力ガードで検出した発言（指示の書き換え・問診と無関係な依頼、管理画面でスタッフが確認）
+  guardFlags?: InputGuardAlert[];
+}
+
+// 問診の言語
+export type InterviewLanguage = 'ja' | 'en' | 'zh' | 'vi' | 'ko';
+
+// 会話記録の1発言
+export interface TranscriptEntry {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  truncated?: boolean; // 患者が割り込んだため読み上げを途中で止めた発言
+}
+
+// 読み上げ（TTS）のプロバイダー: OpenAI TTS / ブラウザの音声合成 / ローカルのHTTP TTSサーバー
+export type TTSProviderId = 'openai' | 'browser' | 'http';
+
+// 音声認識（STT）のプロバイダー: ブラウザの音声認識 / OpenAIの文字起こし / ローカルの文字起こしサーバー（Whisper等）
+export type STTProviderId = 'webSpeech' | 'openai' | 'http';
+
+// 読み上げの声（プロバイダー・声・速度・高さ）と言語（Web Speech API）
+export interface SpeechVoice {
+  provider: TTSProviderId;
+  model: string; // OpenAI TTSのモデル（tts-1 など）
+  endpoint: string; // ローカルHTTP TTSサーバーのURL
+  voice: string; // OpenAI: alloy, echo, fable, onyx, nova, shimmer / ブラウザ・ローカルサーバー: 話者名
+  speed: number;
+  pitch: number; // 声の高さ（ブラウザの音声合成・ローカルサーバーのみ、0〜2）
+  lang: string;
+}
+
+// 問診モード: AI対話 / LLMを使わないスクリプト問診
+export type InterviewMode = 'ai' | 'scripted';
+
+// レッドフラグの検出結果
+export interface RedFlagAlert {
+  source: 'rule' | 'classifier'; // キーワード・正規表現ルール / LLM分類器
+  ruleId?: string;
+  label: string; // 例: 胸痛
+  matchedText: string; // 一致した語句（分類器の場合は判定理由）
+  message: string; // 患者の発話
+  detectedAt: number;
+  acknowledgedAt?: number; // スタッフが確認して問診を再開した時刻
+}
+
+// 入力ガードの検出種別: AIへの指示の書き換え / 問診と無関係な依頼
+export type InputGuardCategory = 'injection' | 'offTopic';
+
+// 入力ガードの検出結果
+export interface InputGuardAlert {
+  category: InputGuardCategory;
+  matchedText: string; // 一致した語句（正規化後）
+  message: string; // 患者の発話
+  detectedAt: number;
+}
+
+// レッドフラグ分類器の応答
+export interface RedFlagResponse {
+  isRedFlag: boolean;
+  label: string;
+  reason: string;
 }
 
 // LLM応答フォーマット（2段階AI用に単純化）
@@ -68,11 +161,33 @@ export interface LLMResponse {
   emotion: EmotionType;
   needMoreInfo: boolean; // 追加情報が必要かどうか
   isComplete?: boolean; // 問診全体が完了したかどうか
+  isFallback?: boolean; // AI呼び出しに失敗した場合の定型応答
+  furigana?: string; // やさしい日本語モード: ふりがな付きのreply（漢字《かんじ》）
+}
+
+// 1段階AI: 質問ごとの抽出結果
+export interface ExtractedAnswer {
+  questionId: string;
+  value: string; // この質問に対する回答のみを抽出した値
+  evidence: string; // 根拠となる患者発話の該当部分
+  symptoms?: SymptomRecord[];
+  normalizedValue?: NormalizedValue;
 }
 
 // 1段階AI: 答変分析の応答フォーマット
 export interface AnalysisResponse {
-  answeredQuestions: string[]; // この回答で答えられた質問IDのリスト
+  answers: ExtractedAnswer[]; // この回答で答えられた質問ごとの抽出結果
+}
+
+// 要約AIの応答フォーマット
+export interface SummaryResponse {
+  formattedAnswers: FormattedAnswer[];
+  summary: string;
+}
+
+// 会話メモリ圧縮の応答フォーマット
+export interface FactSheetResponse {
+  factSheet: string; // 古い会話から抽出した事実の箇条書き
 }
 
 // チャットメッセージ
@@ -82,6 +197,9 @@ export interface ChatMessage {
   content: string;
   timestamp: number;
   emotion?: EmotionType;
+  isStreaming?: boolean; // 応答の生成中（ストリーミング表示中）
+  furigana?: string; // ふりがな付きの本文（やさしい日本語モード）
+  truncated?: boolean; // 患者が割り込んだため読み上げを途中で止めた
 }
 
 // 入力モード